@@ -0,0 +1,147 @@
+// Runs the Simulation headlessly on scripted input and checks the outcome.
+//
+// The game rules have no DOM or audio, so Vite's SSR loader can import the
+// TypeScript sources straight into Node. Each check feeds a run InputSamples
+// (one per 10 ms step) and asserts on how far it got and how it ended.
+//
+// Usage: npm test
+
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const server = await createServer({
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { Simulation, simulateRun } = await server.ssrLoadModule('/src/simulation.ts');
+  const { createRandom } = await server.ssrLoadModule('/src/random.ts');
+  const { LIVES_CONFIG, VOICE_CONFIG } = await server.ssrLoadModule('/src/constants.ts');
+
+  const options = (overrides = {}) => ({
+    flyingMode: false,
+    obstaclesEnabled: false,
+    staminaEnabled: false,
+    livesEnabled: false,
+    melodyMode: false,
+    difficulty: 'normal',
+    course: null,
+    vocalRange: null,
+    random: createRandom(7),
+    ...overrides,
+  });
+
+  const sample = (volumeLevel, isScreaming, inputIgnored = false) => ({
+    volumeLevel,
+    isScreaming,
+    inputIgnored,
+    pitch: { frequency: 0, confidence: 0 },
+  });
+  const scream = sample(0.8, true);
+  const silence = sample(0, false);
+  const clapping = sample(0.8, false, true);
+
+  /** `count` steps of `input` */
+  const repeat = (input, count) => Array.from({ length: count }, () => input);
+
+  const checks = {
+    'a steady scream keeps running': () => {
+      const end = simulateRun(repeat(scream, 500), options());
+      assert.equal(end.state.isGameOver, false);
+      assert.ok(end.state.distance > 0);
+      assert.ok(Math.abs(end.state.screamTime - 5) < 1e-6);
+    },
+
+    'falling silent ends the run': () => {
+      const end = simulateRun([...repeat(scream, 100), ...repeat(silence, 100)], options());
+      assert.equal(end.state.isGameOver, true);
+      assert.ok(Math.abs(end.time - 1.05) < 0.02, `ended at ${end.time}s`);
+    },
+
+    'silence before the first scream does not end the run': () => {
+      const end = simulateRun(repeat(silence, 300), options());
+      assert.equal(end.state.isGameOver, false);
+      assert.equal(end.state.distance, 0);
+    },
+
+    'rejected input pauses the silence timer': () => {
+      const end = simulateRun([...repeat(scream, 100), ...repeat(clapping, 20), ...repeat(scream, 100)], options());
+      assert.equal(end.state.isGameOver, false);
+    },
+
+    'rejected input alone does not keep the run going': () => {
+      const end = simulateRun([...repeat(scream, 100), ...repeat(clapping, 300)], options());
+      assert.equal(end.state.isGameOver, true);
+      assert.ok(end.time > 1 + VOICE_CONFIG.rejectTime, `ended at ${end.time}s`);
+    },
+
+    'in melody mode a breath is fine and the song ends the run': () => {
+      const simulation = new Simulation(options({ flyingMode: true, melodyMode: true }));
+      for (const input of [...repeat(scream, 100), ...repeat(silence, 200), ...repeat(scream, 100)]) {
+        simulation.step(input);
+      }
+      assert.equal(simulation.isGameOver, false);
+
+      let steps = 0;
+      while (!simulation.isGameOver && steps++ < 6000) simulation.step(silence);
+      const { melody } = simulation.getState();
+      assert.equal(simulation.isGameOver, true);
+      assert.equal(melody.complete, true);
+    },
+
+    'the same seed and input give the same run': () => {
+      const inputs = repeat(scream, 3000);
+      const first = simulateRun(inputs, options({ obstaclesEnabled: true, random: createRandom(42) }));
+      const second = simulateRun(inputs, options({ obstaclesEnabled: true, random: createRandom(42) }));
+      assert.equal(first.state.distance, second.state.distance);
+      assert.equal(first.state.isGameOver, second.state.isGameOver);
+    },
+
+    'never jumping crashes into an obstacle, and the tumble plays out': () => {
+      const simulation = new Simulation(options({ obstaclesEnabled: true }));
+      let hitTime = null;
+      let tumbled = false;
+      for (const input of repeat(scream, 60000)) {
+        const snapshot = simulation.step(input);
+        if (hitTime === null && snapshot.state.lives === 0) hitTime = snapshot.time;
+        tumbled ||= snapshot.horse.tumble > 0;
+        if (simulation.isGameOver) break;
+      }
+      assert.equal(simulation.isGameOver, true);
+      assert.ok(tumbled);
+      assert.ok(Math.abs(simulation.getSnapshot().time - hitTime - LIVES_CONFIG.tumbleDuration) < 0.02);
+    },
+
+    'lives carry the horse past its first crash': () => {
+      const inputs = repeat(scream, 60000);
+      const single = simulateRun(inputs, options({ obstaclesEnabled: true }));
+      const simulation = new Simulation(options({ obstaclesEnabled: true, livesEnabled: true }));
+      let lives = simulation.getState().lives;
+      let hits = 0;
+      for (const input of inputs) {
+        const snapshot = simulation.step(input);
+        if (snapshot.state.lives < lives) hits++;
+        lives = snapshot.state.lives;
+        if (simulation.isGameOver) break;
+      }
+      assert.equal(hits, 3);
+      assert.ok(simulation.getState().distance > single.state.distance);
+    },
+  };
+
+  let failed = 0;
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      check();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}\n  ${error.message}`);
+    }
+  }
+  process.exitCode = failed ? 1 : 0;
+} finally {
+  await server.close();
+}
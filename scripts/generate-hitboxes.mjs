@@ -0,0 +1,155 @@
+// Builds src/horse-hitboxes.ts from the horse sprite sheets.
+//
+// Each animation frame is cut into CELL×CELL squares; a square counts as
+// solid when at least half its pixels are opaque. Runs of solid squares in
+// a row become rectangles, and rectangles spanning the same columns in
+// consecutive rows are merged.
+//
+// Usage: npm run hitboxes
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+
+const SHEETS = {
+  running: 'public/horse-sprite.png',
+  flying: 'public/horse-sprite-flying.png',
+};
+const OUTPUT = 'src/horse-hitboxes.ts';
+const COLS = 2;            // Sheet layout (see HorseSprite)
+const ROWS = 3;
+const CELL = 8;            // Mask resolution in sprite pixels
+const MIN_ALPHA = 128;     // Pixels fainter than this don't collide
+const MIN_COVERAGE = 0.5;  // Share of a cell that must be opaque
+
+/**
+ * Decode an 8-bit RGBA, non-interlaced PNG
+ */
+function readPng(path) {
+  const file = readFileSync(path);
+  let width = 0;
+  let height = 0;
+  const data = [];
+
+  for (let offset = 8; offset < file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const body = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      if (body[8] !== 8 || body[9] !== 6 || body[12] !== 0) {
+        throw new Error(`${path}: only 8-bit RGBA, non-interlaced PNGs are supported`);
+      }
+    } else if (type === 'IDAT') {
+      data.push(body);
+    }
+    offset += length + 12;
+  }
+
+  const raw = inflateSync(Buffer.concat(data));
+  const stride = width * 4;
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : Buffer.alloc(stride);
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= 4 ? out[x - 4] : 0;
+      const b = prev[x];
+      const c = x >= 4 ? prev[x - 4] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = a;
+      else if (filter === 2) predictor = b;
+      else if (filter === 3) predictor = (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      out[x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, alpha: (x, y) => pixels[(y * width + x) * 4 + 3] };
+}
+
+/**
+ * Rectangles covering one frame, relative to the frame's top-left corner
+ */
+function frameRects(png, left, top, width, height) {
+  const columns = Math.ceil(width / CELL);
+  const rows = Math.ceil(height / CELL);
+  const rects = [];
+  let open = new Map();  // "x:width" → rect still growing downwards
+
+  for (let row = 0; row < rows; row++) {
+    const solid = [];
+    for (let column = 0; column < columns; column++) {
+      let opaque = 0;
+      let total = 0;
+      for (let y = row * CELL; y < Math.min(height, (row + 1) * CELL); y++) {
+        for (let x = column * CELL; x < Math.min(width, (column + 1) * CELL); x++) {
+          total++;
+          if (png.alpha(left + x, top + y) >= MIN_ALPHA) opaque++;
+        }
+      }
+      solid.push(opaque >= total * MIN_COVERAGE);
+    }
+
+    const next = new Map();
+    for (let column = 0; column < columns;) {
+      if (!solid[column]) { column++; continue; }
+      const start = column;
+      while (column < columns && solid[column]) column++;
+
+      const x = start * CELL;
+      const rectWidth = Math.min(width, column * CELL) - x;
+      const key = `${x}:${rectWidth}`;
+      const rect = open.get(key) ?? { x, y: row * CELL, width: rectWidth, height: 0 };
+      if (!open.has(key)) rects.push(rect);
+      rect.height = Math.min(height, (row + 1) * CELL) - rect.y;
+      next.set(key, rect);
+    }
+    open = next;
+  }
+
+  return rects;
+}
+
+const sections = Object.entries(SHEETS).map(([name, path]) => {
+  const png = readPng(path);
+  const frameWidth = png.width / COLS;
+  const frameHeight = png.height / ROWS;
+  const frames = [];
+
+  // Frames read top-to-bottom, then left-to-right
+  for (let frame = 0; frame < COLS * ROWS; frame++) {
+    const left = Math.round(Math.floor(frame / ROWS) * frameWidth);
+    const top = Math.round((frame % ROWS) * frameHeight);
+    frames.push(frameRects(png, left, top, Math.floor(frameWidth), Math.floor(frameHeight)));
+  }
+
+  const body = frames.map(rects =>
+    '    [\n' + rects.map(r => `      { x: ${r.x}, y: ${r.y}, width: ${r.width}, height: ${r.height} },\n`).join('') + '    ],\n'
+  ).join('');
+  return `  ${name}: [\n${body}  ],\n`;
+});
+
+writeFileSync(OUTPUT, `// Generated by scripts/generate-hitboxes.mjs from the horse sprite sheets.
+// Do not edit by hand: run \`npm run hitboxes\` after changing a sprite.
+
+import type { HitRect } from './types';
+
+/**
+ * Collision rectangles for each animation frame of each sheet, in sprite
+ * pixels from the frame's top-left corner
+ */
+export const HORSE_HITBOXES: Record<'running' | 'flying', HitRect[][]> = {
+${sections.join('')}};
+`);
+console.log(`Wrote ${OUTPUT}`);
@@ -1,76 +1,169 @@
-import { AUDIO_CONFIG } from './constants';
+import { AUDIO_CONFIG, CALIBRATION_CONFIG, NOISE_CONFIG } from './constants';
+import { detectPitch } from './pitch';
+import { NoiseFloorTracker } from './noise';
+import { VoiceClassifier } from './voice';
+import { loadVolumeProfile } from './calibration';
+import featureProcessorUrl from './feature-processor?worker&url';
+import type { FeatureProcessorOptions } from './feature-processor';
+import type { AudioInputSource } from './input';
+import type { FeatureFrame, PitchReading, VoiceAnalysis, VolumeProfile } from './types';
 
 /**
- * AudioManager — Handles microphone input and volume analysis.
+ * AudioManager — Handles audio input and volume analysis.
+ *
+ * Input comes from a pluggable AudioInputSource (mic, audio file or synthetic
+ * generator, see input.ts); the analysis below is the same for all of them.
  *
  * Volume pipeline (simple):
- *   1. Read RMS amplitude from the mic  →  "raw" value (0 – ~0.5)
- *   2. Map [AUDIO_CONFIG.minVolume … maxVolume]  →  [0 … 1]
+ *   1. Read RMS amplitude from the source  →  "raw" value (0 – ~0.5)
+ *   2. Map [noise floor … profile.ceiling]  →  [0 … 1]
  *   3. Game / UI consume that 0–1 number directly.
  *
- * To calibrate for a new mic, change minVolume / maxVolume in constants.ts.
+ * The profile comes from the calibration screen and is saved per device.
+ * Uncalibrated mics fall back to AUDIO_CONFIG.minVolume / maxVolume.
+ * The floor starts at the calibrated value and then follows the room noise
+ * (updateNoiseFloor), so background chatter doesn't count as screaming.
+ *
+ * During a run the game reads FeatureFrames (drainFeatures) produced by the
+ * feature worklet at a fixed rate, so every hop of audio is counted once no
+ * matter how fast the game loop runs. The polling getters below are kept for
+ * calibration and for browsers without AudioWorklet.
  */
 export class AudioManager {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
-  private microphone: MediaStreamAudioSourceNode | null = null;
+  private source: AudioInputSource | null = null;
+  private sourceNode: AudioNode | null = null;
+  private featureNode: AudioWorkletNode | null = null;
+  private featureFrames: FeatureFrame[] = [];
+  private lastPollTime: number = 0;  // Fallback path: audio time of the last polled frame
   private dataArray: Uint8Array<ArrayBuffer> | null = null;
   private frequencyArray: Uint8Array<ArrayBuffer> | null = null;
-  private stream: MediaStream | null = null;
+  private sampleArray: Float32Array<ArrayBuffer> | null = null;
+  private spectrumArray: Float32Array<ArrayBuffer> | null = null;
+  private volumeProfile: VolumeProfile | null = null;
+  private noiseFloor = new NoiseFloorTracker(AUDIO_CONFIG.minVolume / NOISE_CONFIG.floorHeadroom);
+  private voiceClassifier = new VoiceClassifier();
   private _isEnabled: boolean = false;
+  private connectError: string = '';  // Why the last connect() failed, for the player
 
   get isEnabled(): boolean {
     return this._isEnabled;
   }
 
   /**
-   * Request microphone access and initialise audio analysis.
+   * Open an input source and route it into the analyser.
+   * Loads the saved calibration profile for the source, if any.
+   * Reconnecting the live microphone that is already open is a no-op; a
+   * file or script is opened afresh, and any other source replaces it.
    */
-  async requestMicrophoneAccess(): Promise<boolean> {
+  async connect(source: AudioInputSource): Promise<boolean> {
+    if (this._isEnabled && this.source === source && source.live) return true;
+    this.disconnect();
+
     try {
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-        },
-      });
+      if (!this.audioContext) {
+        this.audioContext = new AudioContext();
 
-      this.audioContext = new AudioContext();
+        this.analyser = this.audioContext.createAnalyser();
+        this.analyser.fftSize = AUDIO_CONFIG.fftSize;
+        this.analyser.smoothingTimeConstant = AUDIO_CONFIG.smoothingTimeConstant;
 
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = AUDIO_CONFIG.fftSize;
-      this.analyser.smoothingTimeConstant = AUDIO_CONFIG.smoothingTimeConstant;
+        this.dataArray = new Uint8Array(this.analyser.fftSize);
+        this.frequencyArray = new Uint8Array(this.analyser.frequencyBinCount);
+        this.sampleArray = new Float32Array(this.analyser.fftSize);
+        this.spectrumArray = new Float32Array(this.analyser.frequencyBinCount);
 
-      this.microphone = this.audioContext.createMediaStreamSource(this.stream);
-      this.microphone.connect(this.analyser);
+        this.featureNode = await this.createFeatureNode(this.audioContext);
+      }
+
+      this.sourceNode = await source.open(this.audioContext);
+      this.sourceNode.connect(this.analyser!);
+      if (this.featureNode) {
+        this.sourceNode.connect(this.featureNode);
+      }
+      this.source = source;
+      this.featureFrames = [];
+      this.lastPollTime = this.audioContext.currentTime;
 
-      this.dataArray = new Uint8Array(this.analyser.fftSize);
-      this.frequencyArray = new Uint8Array(this.analyser.frequencyBinCount);
+      this.volumeProfile = loadVolumeProfile(source.id);
+      this.resetNoiseFloor();
 
       this._isEnabled = true;
       return true;
     } catch (error) {
-      console.error('Failed to access microphone:', error);
+      console.error(`Failed to open audio input (${source.label}):`, error);
+      this.connectError = describeInputError(error);
+      source.close();
       this._isEnabled = false;
       return false;
     }
   }
 
+  /**
+   * Load the feature worklet. Returns null (polling fallback) if the browser
+   * has no AudioWorklet support or the module fails to load.
+   */
+  private async createFeatureNode(context: AudioContext): Promise<AudioWorkletNode | null> {
+    if (!context.audioWorklet) return null;
+
+    try {
+      await context.audioWorklet.addModule(featureProcessorUrl);
+
+      const processorOptions: FeatureProcessorOptions = {
+        hopSize: AUDIO_CONFIG.featureHopSize,
+        windowSize: AUDIO_CONFIG.fftSize,
+        minFrequency: AUDIO_CONFIG.minPitch,
+        maxFrequency: AUDIO_CONFIG.maxPitch,
+        threshold: AUDIO_CONFIG.yinThreshold,
+      };
+      const node = new AudioWorkletNode(context, AUDIO_CONFIG.featureProcessorName, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+      });
+
+      node.port.onmessage = (event: MessageEvent<FeatureFrame>) => {
+        this.featureFrames.push(event.data);
+        if (this.featureFrames.length > AUDIO_CONFIG.maxQueuedFrames) {
+          this.featureFrames.shift();
+        }
+      };
+
+      return node;
+    } catch (error) {
+      console.warn('AudioWorklet unavailable, falling back to analyser polling:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Close the current input source, keeping the AudioContext for reuse.
+   */
+  disconnect(): void {
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.featureFrames = [];
+
+    this.source?.close();
+    this.source = null;
+
+    this.volumeProfile = null;
+    this._isEnabled = false;
+  }
+
   // ---------------------------------------------------------------------------
-  //  Volume  (0 – 1, mapped from minVolume…maxVolume)
+  //  Volume  (0 – 1, mapped from the calibrated floor…ceiling)
   // ---------------------------------------------------------------------------
 
   /**
-   * Current volume as a normalised 0–1 value.
-   *
-   *   0 %  =  at or below AUDIO_CONFIG.minVolume  (silence / room noise)
-   *   100% =  at or above AUDIO_CONFIG.maxVolume   (loud scream)
+   * Raw RMS amplitude of the current input (0 – ~0.5). Used by calibration.
    */
-  getVolumeLevel(): number {
+  getRawVolume(): number {
     if (!this.analyser || !this.dataArray) return 0;
 
-    // --- raw RMS amplitude ---
     this.analyser.getByteTimeDomainData(this.dataArray);
 
     let sumSquares = 0;
@@ -78,63 +171,188 @@ export class AudioManager {
       const amplitude = (this.dataArray[i] - 128) / 128;
       sumSquares += amplitude * amplitude;
     }
-    const raw = Math.sqrt(sumSquares / this.dataArray.length);
+    return Math.sqrt(sumSquares / this.dataArray.length);
+  }
 
-    // Log raw value periodically so you can calibrate minVolume / maxVolume.
-    // Open DevTools console → be silent → note the number (= minVolume),
-    // then scream → note the number (= maxVolume). Update constants.ts.
-    if (Math.random() < 0.02) {
-      console.log(`[AudioManager] raw RMS: ${raw.toFixed(6)}`);
-    }
+  /**
+   * Current volume as a normalised 0–1 value (polled from the analyser).
+   */
+  getVolumeLevel(): number {
+    return this.normaliseVolume(this.getRawVolume());
+  }
 
-    // --- map [minVolume … maxVolume] → [0 … 1] ---
-    const { minVolume, maxVolume } = AUDIO_CONFIG;
-    const range = maxVolume - minVolume;
+  /**
+   * Map a raw RMS value to 0–1.
+   *
+   *   0 %  =  at or below the calibrated floor    (silence / room noise)
+   *   100% =  at or above the calibrated ceiling  (loud scream)
+   */
+  normaliseVolume(raw: number): number {
+    const floor = this.noiseFloor.level * NOISE_CONFIG.floorHeadroom;
+    const ceiling = this.getCeiling();
+    const range = ceiling - floor;
     if (range <= 0) return 0;
 
-    const normalised = (raw - minVolume) / range;
+    const normalised = (raw - floor) / range;
     return Math.max(0, Math.min(1, normalised));
   }
 
+  /**
+   * Use a calibration profile for volume mapping (null = compile-time defaults).
+   */
+  setVolumeProfile(profile: VolumeProfile | null): void {
+    this.volumeProfile = profile;
+    this.resetNoiseFloor();
+  }
+
+  getVolumeProfile(): VolumeProfile | null {
+    return this.volumeProfile;
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Adaptive noise floor
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Feed one frame of room noise to the floor tracker. Call only while the
+   * player is not screaming (noise gate closed).
+   */
+  updateNoiseFloor(raw: number, duration: number): void {
+    this.noiseFloor.update(raw, duration, this.getCeiling());
+  }
+
+  /**
+   * Current effective floor (raw RMS that maps to 0).
+   */
+  getNoiseFloor(): number {
+    return this.noiseFloor.level * NOISE_CONFIG.floorHeadroom;
+  }
+
+  /**
+   * Restart floor tracking from the calibrated floor.
+   */
+  private resetNoiseFloor(): void {
+    const floor = this.volumeProfile?.floor ?? AUDIO_CONFIG.minVolume;
+    this.noiseFloor.reset(floor / NOISE_CONFIG.floorHeadroom);
+  }
+
+  /**
+   * Calibrated ceiling, kept clear of the floor so the range never collapses.
+   */
+  private getCeiling(): number {
+    const ceiling = this.volumeProfile?.ceiling ?? AUDIO_CONFIG.maxVolume;
+    const floor = this.noiseFloor.level * NOISE_CONFIG.floorHeadroom;
+    return Math.max(ceiling, floor + CALIBRATION_CONFIG.minRange);
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Device info
+  // ---------------------------------------------------------------------------
+
+  /**
+   * False for a file or scripted input, which plays whether or not the
+   * game is ready for it
+   */
+  get isLiveInput(): boolean {
+    return this.source?.live ?? true;
+  }
+
+  /**
+   * Rewind a file or scripted input for a new run (live input carries on)
+   */
+  restartInput(): void {
+    this.source?.restart();
+    this.featureFrames = [];
+  }
+
+  getDeviceId(): string {
+    return this.source?.id ?? 'default';
+  }
+
+  getDeviceLabel(): string {
+    return this.source?.label ?? 'No input';
+  }
+
+  getConnectError(): string {
+    return this.connectError;
+  }
+
   // ---------------------------------------------------------------------------
   //  Pitch  (Hz — used for the flying challenge)
   // ---------------------------------------------------------------------------
 
   /**
-   * Dominant pitch in Hz (0 if nothing clear is detected).
-   * Uses the frequency bin with the highest magnitude in the voice range.
+   * Fundamental pitch of the current input, with a 0–1 confidence score.
+   * Runs the YIN estimator on the analyser's time-domain samples (see pitch.ts),
+   * so readings are sub-bin accurate and don't jump to harmonics.
    */
-  getPitch(): number {
-    if (!this.analyser || !this.frequencyArray || !this.audioContext) return 0;
+  getPitch(): PitchReading {
+    if (!this.analyser || !this.sampleArray || !this.audioContext) {
+      return { frequency: 0, confidence: 0 };
+    }
 
-    this.analyser.getByteFrequencyData(this.frequencyArray);
+    this.analyser.getFloatTimeDomainData(this.sampleArray);
 
-    let maxValue = 0;
-    let maxIndex = 0;
-    // Voice range ~80 Hz–1.2 kHz; with fftSize 2048 @ 48kHz, bin width ≈ 23 Hz, so bins 4–52
-    const minBin = 2;
-    const maxBin = Math.min(this.frequencyArray.length, 120);
+    return detectPitch(this.sampleArray, this.audioContext.sampleRate, {
+      minFrequency: AUDIO_CONFIG.minPitch,
+      maxFrequency: AUDIO_CONFIG.maxPitch,
+      threshold: AUDIO_CONFIG.yinThreshold,
+    });
+  }
 
-    for (let i = minBin; i < maxBin; i++) {
-      if (this.frequencyArray[i] > maxValue) {
-        maxValue = this.frequencyArray[i];
-        maxIndex = i;
-      }
+  // ---------------------------------------------------------------------------
+  //  Feature frames  (fixed-rate, from the worklet)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * All feature frames produced since the last call, oldest first.
+   * Without AudioWorklet, returns one polled frame covering the elapsed time.
+   */
+  drainFeatures(): FeatureFrame[] {
+    if (!this._isEnabled || !this.audioContext) return [];
+
+    if (this.featureNode) {
+      const frames = this.featureFrames;
+      this.featureFrames = [];
+      return frames;
     }
 
-    // Lower threshold so pitch is reported even when mic is quieter
-    if (maxValue < 20) return 0;
+    const now = this.audioContext.currentTime;
+    const duration = now - this.lastPollTime;
+    this.lastPollTime = now;
+    if (duration <= 0) return [];
+
+    return [{
+      time: now,
+      duration,
+      rms: this.getRawVolume(),
+      pitch: this.getPitch(),
+    }];
+  }
 
-    const sampleRate = this.audioContext.sampleRate;
-    const binWidth = sampleRate / this.analyser.fftSize;
-    const pitchHz = maxIndex * binWidth;
+  // ---------------------------------------------------------------------------
+  //  Voice activity  (anti-cheat)
+  // ---------------------------------------------------------------------------
 
-    // Debug: log pitch when it changes (remove when done debugging)
-    if (Math.random() < 0.03) {
-      console.log(`[getPitch] maxBin=${maxIndex} maxVal=${maxValue} → ${Math.round(pitchHz)} Hz`);
+  /**
+   * Classify the current input as voiced or not (see voice.ts), from the
+   * analyser's spectrum plus the pitch track of `frames`.
+   */
+  analyseVoice(frames: FeatureFrame[], deltaSeconds: number): VoiceAnalysis {
+    if (!this.analyser || !this.spectrumArray || !this.audioContext) {
+      return this.voiceClassifier.getAnalysis();
     }
 
-    return pitchHz;
+    this.analyser.getFloatFrequencyData(this.spectrumArray);
+    const binWidth = this.audioContext.sampleRate / this.analyser.fftSize;
+    return this.voiceClassifier.update(this.spectrumArray, binWidth, frames, deltaSeconds);
+  }
+
+  /**
+   * Forget the classifier's history (e.g. at the start of a run).
+   */
+  resetVoiceAnalysis(): void {
+    this.voiceClassifier.reset();
   }
 
   // ---------------------------------------------------------------------------
@@ -142,9 +360,9 @@ export class AudioManager {
   // ---------------------------------------------------------------------------
 
   getFrequencyData(): Uint8Array | null {
-    if (!this.analyser || !this.dataArray) return null;
-    this.analyser.getByteFrequencyData(this.dataArray);
-    return this.dataArray;
+    if (!this.analyser || !this.frequencyArray) return null;
+    this.analyser.getByteFrequencyData(this.frequencyArray);
+    return this.frequencyArray;
   }
 
   // ---------------------------------------------------------------------------
@@ -158,11 +376,10 @@ export class AudioManager {
   }
 
   dispose(): void {
-    this.microphone?.disconnect();
-    this.microphone = null;
+    this.disconnect();
 
-    this.stream?.getTracks().forEach(t => t.stop());
-    this.stream = null;
+    this.featureNode?.port.close();
+    this.featureNode = null;
 
     this.audioContext?.close();
     this.audioContext = null;
@@ -170,6 +387,17 @@ export class AudioManager {
     this.analyser = null;
     this.dataArray = null;
     this.frequencyArray = null;
-    this._isEnabled = false;
+    this.sampleArray = null;
+    this.spectrumArray = null;
   }
 }
+
+/**
+ * Player-facing reason an input source couldn't be opened
+ */
+function describeInputError(error: unknown): string {
+  const { name, message } = (error ?? {}) as Partial<Error>;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Microphone access denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No microphone found';
+  return message || 'Could not open the audio input';
+}
@@ -0,0 +1,175 @@
+import { AUDIO_CONFIG, CALIBRATION_CONFIG, VOCAL_CONFIG } from './constants';
+import { toSemitones } from './vocal-range';
+import type { AudioManager } from './audio';
+import type { CalibrationPhase, VocalRange, VolumeProfile } from './types';
+
+// ---------------------------------------------------------------------------
+//  Profile storage  (localStorage, keyed by input device id)
+// ---------------------------------------------------------------------------
+
+/**
+ * A volume profile read from storage, or null if it isn't a usable one
+ * (a NaN floor or ceiling would silently break scream detection).
+ */
+export function validateVolumeProfile(data: unknown): VolumeProfile | null {
+  const profile = data as Partial<VolumeProfile> | null;
+  if (!profile || typeof profile !== 'object' || typeof profile.deviceId !== 'string') return null;
+
+  const { floor, ceiling } = profile;
+  if (!Number.isFinite(floor) || !Number.isFinite(ceiling) || floor! < 0 || ceiling! <= floor!) {
+    return null;
+  }
+  return {
+    deviceId: profile.deviceId,
+    label: typeof profile.label === 'string' ? profile.label : '',
+    floor: floor!,
+    ceiling: ceiling!,
+    calibratedAt: Number(profile.calibratedAt) || 0,
+  };
+}
+
+function readProfiles(): Record<string, VolumeProfile> {
+  try {
+    const raw = localStorage.getItem(CALIBRATION_CONFIG.storageKey);
+    const profiles: Record<string, unknown> = raw ? JSON.parse(raw) : {};
+    return Object.fromEntries(Object.entries(profiles).flatMap(([deviceId, data]) => {
+      const profile = validateVolumeProfile(data);
+      if (!profile) {
+        console.warn('Discarding unreadable calibration profile:', deviceId);
+        return [];
+      }
+      return [[deviceId, profile]];
+    }));
+  } catch (error) {
+    console.warn('Failed to read calibration profiles:', error);
+    return {};
+  }
+}
+
+/**
+ * Saved calibration for an input device, or null if it was never calibrated.
+ */
+export function loadVolumeProfile(deviceId: string): VolumeProfile | null {
+  return readProfiles()[deviceId] ?? null;
+}
+
+/**
+ * Persist a calibration, replacing any previous one for the same device.
+ */
+export function saveVolumeProfile(profile: VolumeProfile): void {
+  const profiles = readProfiles();
+  profiles[profile.deviceId] = profile;
+  try {
+    localStorage.setItem(CALIBRATION_CONFIG.storageKey, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn('Failed to save calibration profile:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Calibration run
+// ---------------------------------------------------------------------------
+
+/**
+ * MicCalibrator — Records a few seconds of silence, then a few seconds of
+ * screaming, and turns the raw RMS samples into a floor / ceiling profile.
+ * Optionally records the player's lowest and highest note for flying.
+ */
+export class MicCalibrator {
+  private audioManager: AudioManager;
+
+  constructor(audioManager: AudioManager) {
+    this.audioManager = audioManager;
+  }
+
+  /**
+   * Run both recording phases. `onProgress` receives the current phase and
+   * its 0–1 progress every frame. Rejects if the scream was not clearly
+   * louder than the room.
+   */
+  async run(onProgress: (phase: CalibrationPhase, progress: number) => void): Promise<VolumeProfile> {
+    const rawVolume = () => this.audioManager.getRawVolume();
+    const silence = await this.record(CALIBRATION_CONFIG.silenceDuration, rawVolume, p => onProgress('silence', p));
+    const scream = await this.record(CALIBRATION_CONFIG.screamDuration, rawVolume, p => onProgress('scream', p));
+
+    const floor = percentile(silence, CALIBRATION_CONFIG.floorPercentile) * CALIBRATION_CONFIG.floorHeadroom;
+    const ceiling = percentile(scream, CALIBRATION_CONFIG.ceilingPercentile);
+
+    if (ceiling - floor < CALIBRATION_CONFIG.minRange) {
+      throw new Error('Too quiet! Scream louder and try again');
+    }
+
+    return {
+      deviceId: this.audioManager.getDeviceId(),
+      label: this.audioManager.getDeviceLabel(),
+      floor,
+      ceiling,
+      calibratedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Record the lowest and highest comfortable note. Each is the median of
+   * the confident pitch readings while the player holds it.
+   */
+  async recordVocalRange(onProgress: (phase: CalibrationPhase, progress: number) => void): Promise<VocalRange> {
+    const confidentPitch = () => {
+      const pitch = this.audioManager.getPitch();
+      return pitch.confidence >= AUDIO_CONFIG.minPitchConfidence ? pitch.frequency : null;
+    };
+    const lows = await this.record(VOCAL_CONFIG.noteDuration, confidentPitch, p => onProgress('low', p));
+    const highs = await this.record(VOCAL_CONFIG.noteDuration, confidentPitch, p => onProgress('high', p));
+
+    if (lows.length === 0 || highs.length === 0) {
+      throw new Error('No clear note heard! Sing a steady "aaah"');
+    }
+
+    const low = percentile(lows, 0.5);
+    const high = percentile(highs, 0.5);
+    if (toSemitones(high) - toSemitones(low) < VOCAL_CONFIG.minSpanSemitones) {
+      throw new Error('Notes too close! Go lower, then higher');
+    }
+
+    return { low, high };
+  }
+
+  /**
+   * Call `sample` once per animation frame for `seconds`, keeping every
+   * non-null result.
+   */
+  private record(
+    seconds: number,
+    sample: () => number | null,
+    onProgress: (progress: number) => void
+  ): Promise<number[]> {
+    return new Promise(resolve => {
+      const samples: number[] = [];
+      const startTime = performance.now();
+
+      const tick = (now: number) => {
+        const value = sample();
+        if (value !== null) samples.push(value);
+        const progress = Math.min(1, (now - startTime) / (seconds * 1000));
+        onProgress(progress);
+
+        if (progress < 1) {
+          requestAnimationFrame(tick);
+        } else {
+          resolve(samples);
+        }
+      };
+
+      requestAnimationFrame(tick);
+    });
+  }
+}
+
+/**
+ * Value below which `fraction` of the samples fall.
+ */
+function percentile(samples: number[], fraction: number): number {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor(fraction * sorted.length));
+  return sorted[index];
+}
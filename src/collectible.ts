@@ -0,0 +1,245 @@
+import { CANVAS_DIMENSIONS, UI_CONFIG } from './constants';
+
+/**
+ * Collectible types
+ *
+ *   envelope     red envelope — bonus distance
+ *   lantern      shield that absorbs one obstacle hit
+ *   firecracker  speed burst
+ */
+export type CollectibleType = 'envelope' | 'lantern' | 'firecracker';
+
+/**
+ * Single collectible instance
+ */
+export interface Collectible {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: CollectibleType;
+}
+
+/**
+ * Collectible configuration (effects are tuned in POWERUP_CONFIG)
+ */
+const COLLECTIBLE_CONFIG = {
+  startDistance: 300,      // First pickup appears after this many meters
+  minSpawnInterval: 400,   // Minimum distance between pickups (in meters)
+  maxSpawnInterval: 1200,  // Maximum distance between pickups
+  types: {
+    envelope: { width: 34, height: 44, weight: 0.5 },
+    lantern: { width: 40, height: 52, weight: 0.2 },
+    firecracker: { width: 30, height: 50, weight: 0.3 },
+  },
+  groundY: CANVAS_DIMENSIONS.height - 130,  // Bottom of a ground pickup (at the horse's chest)
+  skyTop: 110,                              // Highest an airborne pickup spawns
+  padding: 10,                              // Horse bounds shrink by this for pickups
+};
+
+/**
+ * CollectibleManager - Spawns, scrolls and collects power-ups
+ * Drawing lives in drawCollectibles() so the manager can run headless.
+ */
+export class CollectibleManager {
+  private collectibles: Collectible[] = [];
+  private nextSpawnDistance: number = COLLECTIBLE_CONFIG.startDistance;
+  private random: () => number;
+
+  /**
+   * @param random  Source of 0–1 random numbers (inject a fixed one for repeatable runs)
+   */
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Spawn and scroll pickups. Airborne pickups only appear once the horse
+   * can fly up to them.
+   */
+  update(distance: number, speed: number, deltaTime: number, airborne: boolean): void {
+    if (distance >= this.nextSpawnDistance) {
+      this.spawnCollectible(airborne);
+      this.nextSpawnDistance = distance + COLLECTIBLE_CONFIG.minSpawnInterval +
+        this.random() * (COLLECTIBLE_CONFIG.maxSpawnInterval - COLLECTIBLE_CONFIG.minSpawnInterval);
+    }
+
+    // Pickups scroll with the ground
+    const movement = speed * (deltaTime / 1000) * UI_CONFIG.groundScale;
+    for (const collectible of this.collectibles) {
+      collectible.x -= movement;
+    }
+
+    this.collectibles = this.collectibles.filter(c => c.x + c.width > -50);
+  }
+
+  /**
+   * Remove and return every pickup the horse is touching
+   */
+  collect(horseX: number, horseY: number, horseWidth: number, horseHeight: number): Collectible[] {
+    const padding = COLLECTIBLE_CONFIG.padding;
+    const left = horseX + padding;
+    const right = horseX + horseWidth - padding;
+    const top = horseY + padding;
+    const bottom = horseY + horseHeight - padding;
+
+    const collected = this.collectibles.filter(c =>
+      right > c.x && left < c.x + c.width && bottom > c.y && top < c.y + c.height
+    );
+    if (collected.length > 0) {
+      this.collectibles = this.collectibles.filter(c => !collected.includes(c));
+    }
+    return collected;
+  }
+
+  /**
+   * Get current collectibles (for drawing and debugging)
+   */
+  getCollectibles(): Collectible[] {
+    return this.collectibles;
+  }
+
+  private spawnCollectible(airborne: boolean): void {
+    const type = this.getRandomType();
+    const config = COLLECTIBLE_CONFIG.types[type];
+
+    // On the ground at chest height, or anywhere between the street and the sky
+    const bottom = airborne
+      ? COLLECTIBLE_CONFIG.skyTop + config.height +
+        this.random() * (COLLECTIBLE_CONFIG.groundY - COLLECTIBLE_CONFIG.skyTop - config.height)
+      : COLLECTIBLE_CONFIG.groundY;
+
+    this.collectibles.push({
+      x: CANVAS_DIMENSIONS.width + 50,  // Spawn just off-screen right
+      y: bottom - config.height,
+      width: config.width,
+      height: config.height,
+      type,
+    });
+  }
+
+  /**
+   * Weighted random type
+   */
+  private getRandomType(): CollectibleType {
+    const types = Object.keys(COLLECTIBLE_CONFIG.types) as CollectibleType[];
+    let roll = this.random();
+    for (const type of types) {
+      roll -= COLLECTIBLE_CONFIG.types[type].weight;
+      if (roll < 0) return type;
+    }
+    return types[types.length - 1];
+  }
+}
+
+/**
+ * Draw all collectibles, bobbing gently with `time` (seconds)
+ */
+export function drawCollectibles(ctx: CanvasRenderingContext2D, collectibles: Collectible[], time: number): void {
+  for (const collectible of collectibles) {
+    const bob = Math.sin(time * 4 + collectible.x * 0.01) * 4;
+    ctx.save();
+    ctx.translate(0, bob);
+    switch (collectible.type) {
+      case 'envelope':
+        drawEnvelope(ctx, collectible);
+        break;
+      case 'lantern':
+        drawLantern(ctx, collectible);
+        break;
+      case 'firecracker':
+        drawFirecracker(ctx, collectible);
+        break;
+    }
+    ctx.restore();
+  }
+}
+
+/**
+ * Draw a red envelope (hongbao) with a gold seal
+ */
+function drawEnvelope(ctx: CanvasRenderingContext2D, c: Collectible): void {
+  ctx.fillStyle = '#D62828';
+  ctx.fillRect(c.x, c.y, c.width, c.height);
+
+  // Flap
+  ctx.fillStyle = '#9B1B1B';
+  ctx.beginPath();
+  ctx.moveTo(c.x, c.y);
+  ctx.lineTo(c.x + c.width / 2, c.y + c.height * 0.35);
+  ctx.lineTo(c.x + c.width, c.y);
+  ctx.closePath();
+  ctx.fill();
+
+  // Seal
+  ctx.fillStyle = '#FFD700';
+  ctx.beginPath();
+  ctx.arc(c.x + c.width / 2, c.y + c.height * 0.38, c.width * 0.18, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.strokeStyle = '#FFD700';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(c.x + 1, c.y + 1, c.width - 2, c.height - 2);
+}
+
+/**
+ * Draw a glowing paper lantern
+ */
+function drawLantern(ctx: CanvasRenderingContext2D, c: Collectible): void {
+  const centerX = c.x + c.width / 2;
+  const capHeight = 6;
+
+  // Glow
+  ctx.shadowColor = '#FFB703';
+  ctx.shadowBlur = 16;
+
+  // Body
+  ctx.fillStyle = '#E63946';
+  ctx.beginPath();
+  ctx.ellipse(centerX, c.y + c.height / 2, c.width / 2, c.height / 2 - capHeight, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  // Ribs
+  ctx.strokeStyle = '#9B1B1B';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.ellipse(centerX, c.y + c.height / 2, c.width / 4, c.height / 2 - capHeight, 0, 0, Math.PI * 2);
+  ctx.moveTo(centerX, c.y + capHeight);
+  ctx.lineTo(centerX, c.y + c.height - capHeight);
+  ctx.stroke();
+
+  // Gold caps and tassel
+  ctx.fillStyle = '#FFD700';
+  ctx.fillRect(centerX - c.width * 0.25, c.y, c.width * 0.5, capHeight);
+  ctx.fillRect(centerX - c.width * 0.25, c.y + c.height - capHeight, c.width * 0.5, capHeight);
+  ctx.fillRect(centerX - 1, c.y + c.height, 2, 8);
+}
+
+/**
+ * Draw a firecracker with a lit fuse
+ */
+function drawFirecracker(ctx: CanvasRenderingContext2D, c: Collectible): void {
+  const bodyTop = c.y + 10;
+
+  ctx.fillStyle = '#D62828';
+  ctx.fillRect(c.x + 4, bodyTop, c.width - 8, c.height - 10);
+
+  // Gold bands
+  ctx.fillStyle = '#FFD700';
+  ctx.fillRect(c.x + 4, bodyTop + 4, c.width - 8, 4);
+  ctx.fillRect(c.x + 4, c.y + c.height - 8, c.width - 8, 4);
+
+  // Fuse and spark
+  ctx.strokeStyle = '#3D2817';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(c.x + c.width / 2, bodyTop);
+  ctx.quadraticCurveTo(c.x + c.width * 0.8, c.y + 5, c.x + c.width * 0.7, c.y);
+  ctx.stroke();
+
+  ctx.fillStyle = '#FFB703';
+  ctx.beginPath();
+  ctx.arc(c.x + c.width * 0.7, c.y, 4, 0, Math.PI * 2);
+  ctx.fill();
+}
@@ -1,4 +1,4 @@
-import type { GameConfig, Dimensions, ColorPalette } from './types';
+import type { GameConfig, Dimensions, ColorPalette, Difficulty, DifficultyPreset } from './types';
 
 // ===== Canvas Configuration =====
 export const CANVAS_DIMENSIONS: Dimensions = {
@@ -12,18 +12,221 @@ export const GAME_CONFIG: GameConfig = {
   maxSpeedBoost: 1000,       // Max additional speed from screaming louder
   volumeThreshold: 0.3,    // 0–1 normalised volume needed to count as screaming
   // ↑ Lower this if the horse won't start; raise if it runs on silence
-  silenceGracePeriod: 0.05,     // Seconds of silence before game over
+};
+
+// ===== Difficulty Presets =====
+// Every setting ramps linearly from `start` at 0m to `end` at rampDistance,
+// then holds. Silence grace shrinks, so long runs forgive less.
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: {
+    label: '🐢 Easy',
+    rampDistance: 60000,
+    minSpawnInterval: { start: 1200, end: 700 },
+    maxSpawnInterval: { start: 2600, end: 1600 },
+    aerialWeight: { start: 0.5, end: 1 },
+    scrollMultiplier: { start: 1, end: 1.2 },
+    silenceGrace: { start: 0.3, end: 0.15 },
+  },
+  normal: {
+    label: '🐴 Normal',
+    rampDistance: 40000,
+    minSpawnInterval: { start: 800, end: 400 },
+    maxSpawnInterval: { start: 2000, end: 1000 },
+    aerialWeight: { start: 1, end: 1.5 },
+    scrollMultiplier: { start: 1, end: 1.5 },
+    silenceGrace: { start: 0.05, end: 0.05 },
+  },
+  insane: {
+    label: '🔥 Insane',
+    rampDistance: 25000,
+    minSpawnInterval: { start: 500, end: 250 },
+    maxSpawnInterval: { start: 1200, end: 600 },
+    aerialWeight: { start: 1.5, end: 3 },
+    scrollMultiplier: { start: 1.2, end: 2 },
+    silenceGrace: { start: 0.05, end: 0.03 },
+  },
+};
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+// ===== Stamina Configuration =====
+// Optional breath rule: screaming empties the meter, short breaths refill it.
+// Silence only ends the run once the meter is full again; screaming on an
+// empty meter ends it after exhaustionGrace.
+export const STAMINA_CONFIG = {
+  drainRate: 0.12,           // Meter emptied per second of screaming at full volume (scales with volume)
+  refillRate: 0.4,           // Meter refilled per second of silence (empty → full in 2.5 s)
+  exhaustionGrace: 0.5,      // Seconds of screaming on an empty meter before the horse collapses
+  lowLevel: 0.25,            // HUD warns below this level
+};
+
+// ===== Lives Configuration =====
+// Optional rule: an obstacle hit costs a life instead of ending the run
+export const LIVES_CONFIG = {
+  lives: 3,                  // Lives at the start of a run (1 with the rule off)
+  tumbleDuration: 0.8,       // Seconds the horse tumbles after a hit
+  tumbleSpeed: 0.3,          // Share of its speed a tumbling horse keeps
+  knockback: 80,             // Pixels the hit throws the horse back (it gallops back into place)
+  invulnerability: 2,        // Seconds after a hit that obstacles pass through (tumble included)
+};
+
+// ===== Power-up Configuration =====
+// Effects of the collectibles (spawning and drawing live in collectible.ts)
+export const POWERUP_CONFIG = {
+  envelopeBonus: 200,        // Meters added by a red envelope
+  shieldDuration: 6,         // Seconds a lantern shield lasts (absorbs one obstacle hit)
+  burstDuration: 2,          // Seconds a firecracker speed burst lasts
+  burstSpeed: 500,           // Extra speed during a burst (while screaming)
+};
+
+// ===== Sing-the-Melody Configuration =====
+// Notes scroll at a fixed rate (song time, not distance) and are placed at
+// the height the player's own vocal range flies to for that pitch
+export const MELODY_CONFIG = {
+  scrollSpeed: 280,          // Pixels per second of song
+  leadIn: 3,                 // Seconds from the first scream until the first note reaches the horse
+  noteHeight: 36,            // Note bar thickness in pixels
+  pitchTolerance: 1,         // Semitones either side of a note that still count as on pitch
+  hitShare: 0.5,             // Share of a note that must be sung on pitch to hit it
+  perfectOnset: 0.15,        // Seconds — on pitch this soon after the note starts = perfect timing
+  goodOnset: 0.35,           // Seconds — good timing
+  notePoints: 100,           // Points for a note sung fully on pitch
+  perfectBonus: 50,
+  goodBonus: 20,
+  streakBonus: 0.1,          // Extra multiplier per note in the current streak…
+  maxMultiplier: 2,          // …up to this
+  fallbackRange: { low: 130, high: 440 },  // Used when the player has no calibrated range
+};
+
+// ===== Jump Configuration =====
+// A sudden burst of volume ("HUP!") makes the horse jump while it's on the ground
+export const JUMP_CONFIG = {
+  spikeRise: 0.3,            // Volume must jump this far above the recent average…
+  minVolume: 0.6,            // …and reach at least this loud
+  averageTime: 0.4,          // Seconds the recent average volume spans
+  velocity: 1000,            // Take-off speed (pixels per second, upwards)
+  gravity: 2600,             // Pixels per second² — apex ≈ 190 px, ≈ 0.77 s in the air
+};
+
+// ===== Simulation Configuration =====
+export const SIMULATION_CONFIG = {
+  timestep: 0.01,            // Seconds per simulation step (shorter than one audio feature frame)
 };
 
 // ===== Audio Configuration =====
-// Adjust minVolume / maxVolume to match YOUR microphone.
-//   minVolume  = the raw level you see in silence  (raise if bar sits above 0% when quiet)
-//   maxVolume  = the raw level when you scream hard (lower if bar never reaches 100%)
+// minVolume / maxVolume are only the fallback range for an uncalibrated mic.
+// The calibration screen measures the real floor / ceiling per device.
 export const AUDIO_CONFIG = {
-  fftSize: 2048,             // Larger FFT = better pitch resolution (was 256, ~187 Hz/bin; now ~23 Hz/bin)
+  fftSize: 2048,             // Analysis window in samples (~43 ms @ 48kHz — fits two periods of a 70 Hz voice)
   smoothingTimeConstant: 0.7,
+  featureHopSize: 1024,      // Samples per feature frame (~21 ms @ 48kHz)
+  maxQueuedFrames: 64,       // Feature frames kept if the game stops draining them
+  featureProcessorName: 'feature-processor',
   minVolume: 0.1,           // Raw volume floor  (silence)
   maxVolume: 0.25,           // Raw volume ceiling (loud scream)
+  minPitch: 70,              // Lowest pitch searched for (Hz) — deep voices
+  maxPitch: 1200,            // Highest pitch searched for (Hz) — shrieks
+  yinThreshold: 0.15,        // YIN dip threshold (lower = stricter periodicity)
+  minPitchConfidence: 0.8,   // Readings below this confidence are ignored for flying
+};
+
+// ===== Noise Floor & Gate Configuration =====
+// The gate opens at GAME_CONFIG.volumeThreshold and closes at gateCloseLevel.
+export const NOISE_CONFIG = {
+  gateCloseLevel: 0.18,      // Normalised level the voice must drop below to stop "screaming"
+  floorHeadroom: 1.5,        // Effective floor = ambient room noise × headroom
+  floorFallTime: 0.5,        // Seconds — adapt quickly when the room gets quieter
+  floorRiseTime: 4,          // Seconds — adapt slowly when the room gets louder
+  maxFloorRatio: 0.6,        // Effective floor never exceeds this fraction of the ceiling
+};
+
+// ===== Start Countdown Configuration =====
+// Before a run: check the mic delivers signal and the room is quiet, then 3-2-1-SCREAM!
+export const COUNTDOWN_CONFIG = {
+  quietLevel: NOISE_CONFIG.gateCloseLevel,  // Normalised level the room must stay under
+  quietTime: 1,              // Seconds of quiet needed before counting down
+  countFrom: 3,              // 3-2-1…
+  falseStartTime: 1.5,       // Seconds "FALSE START!" stays up before trying again
+  goTime: 0.8,               // Seconds "SCREAM!" stays on screen after GO
+  warnAfter: 3,              // Seconds without signal / quiet before showing a hint
+};
+
+// ===== Voice Classifier Configuration =====
+// Anti-cheat: only voiced sound counts as screaming (see voice.ts)
+export const VOICE_CONFIG = {
+  minFrequency: 80,          // Spectrum band analysed (Hz)
+  maxFrequency: 4000,
+  harmonics: 8,              // Harmonics of the pitch summed for harmonicity
+  minHarmonicity: 0.2,       // Below this the sound isn't harmonic enough for a voice
+  maxFlatness: 0.4,          // Above this the spectrum is noise-like (blowing, hiss)
+  minStability: 0.35,        // Below this the pitch is too erratic (taps, claps, chords)
+  pitchConfidence: 0.5,      // Min YIN confidence for a frame to count towards stability
+  stabilityWindow: 0.3,      // Seconds of pitch history judged for stability
+  minPitchedFrames: 3,       // Fewer pitched frames than this = no stable pitch
+  maxPitchDeviation: 3,      // Semitones of std deviation that count as "unstable"
+  acceptTime: 0.05,          // Seconds of passing before a sound counts as voiced
+  rejectTime: 0.25,          // Seconds of failing before a voice is ignored again
+};
+
+// ===== Calibration Configuration =====
+export const CALIBRATION_CONFIG = {
+  silenceDuration: 3,        // Seconds of silence recorded for the floor
+  screamDuration: 3,         // Seconds of screaming recorded for the ceiling
+  floorPercentile: 0.95,     // Ignore the odd click / cough in the silence sample
+  floorHeadroom: 1.2,        // Floor sits a little above measured room noise
+  ceilingPercentile: 0.8,    // A sustained scream level, not the single loudest peak
+  minRange: 0.01,            // Reject calibrations where scream ≈ silence
+  storageKey: 'scream-race.volume-profiles',
+};
+
+// ===== Vocal Range Configuration =====
+export const VOCAL_CONFIG = {
+  noteDuration: 2.5,         // Seconds recorded for each calibration note
+  minSpanSemitones: 5,       // Narrower ranges are widened to this (≈ a fourth)
+  learnWindow: 600,          // Confident pitch readings remembered during play (~6 s of singing at one per 10 ms step)
+  minLearnSamples: 50,       // Readings needed before a range is learned (~0.5 s of singing)
+  learnLowPercentile: 0.1,   // Learned low note ignores the lowest 10 % (growls, cracks)
+  learnHighPercentile: 0.9,  // Learned high note ignores the highest 10 % (squeaks)
+  storageKey: 'scream-race.vocal-range',
+};
+
+// ===== Device Configuration =====
+export const DEVICE_CONFIG = {
+  storageKey: 'scream-race.mic-device',
+  noticeDuration: 2500,      // ms the "switched microphone" notice stays on the HUD
+};
+
+// ===== Hot-seat Tournament Configuration =====
+export const TOURNAMENT_CONFIG = {
+  maxPlayers: 8,
+  maxNameLength: 12,
+  roundOptions: [1, 3, 5],   // Choices for the "rounds" format
+  storageKey: 'scream-race.players',
+};
+
+// ===== Head-to-head Configuration =====
+export const VERSUS_CONFIG = {
+  playerNames: ['PLAYER 1', 'PLAYER 2'],
+  finishDistances: [5000, 10000, 20000],  // Choices for the "first to the line" rule
+  storageKey: 'scream-race.rival-mic',    // Player 2's microphone choice
+};
+
+// ===== Ghost Replay Configuration =====
+export const REPLAY_CONFIG = {
+  version: 7,                // Bumped whenever the rules change what a replay would do
+  storageKey: 'scream-race.best-replays',
+  fileExtension: '.scream.json',
+  maxSteps: 180000,          // Longest importable run (30 min of 10 ms steps)
+};
+
+// ===== Course Editor Configuration =====
+export const COURSE_CONFIG = {
+  storageKey: 'scream-race.courses',
+  fileExtension: '.course.json',
+  maxNameLength: 32,
+  maxAltitude: 460,          // Highest an obstacle's bottom can sit (px above the street)
+  snap: 10,                  // Placed obstacles snap to this many metres
+  viewMargin: 1000,          // Metres the preview can scroll past the last obstacle
+  placeAhead: 200,           // Metres ahead of the view the ADD button places at
 };
 
 // ===== Color Palette - Chinese New Year Theme =====
@@ -59,10 +262,36 @@ export const HORSE_CONFIG = {
   height: 48,
   groundY: 650,              // Y position for horse feet (on the street in background image)
   animationFrames: 6,        // 6 frames in sprite sheet
+  frameWidth: 527 / 2,       // One sprite sheet cell (527x473 sheet, 2 columns)
+  frameHeight: 473 / 3,      // One sprite sheet cell (3 rows)
   baseAnimationSpeed: 100,   // ms per frame at base speed
   minAnimationSpeed: 40,     // ms per frame at max speed
 };
 
+// ===== Background Stages =====
+// Background image cross-fades: [start distance, duration]
+export const BACKGROUND_TRANSITIONS = [
+  { start: 2000, duration: 500 },   // bg1 -> bg2 at 2000m
+  { start: 4000, duration: 500 },   // bg2 -> bg3 at 4000m
+  { start: 6000, duration: 500 },   // bg3 -> bg4 at 6000m
+  { start: 8000, duration: 500 },   // bg4 -> bg5 at 8000m
+  { start: 10000, duration: 500 },  // bg5 -> bg6 at 10000m
+  { start: 12000, duration: 500 },  // bg6 -> bg7 at 12000m
+  { start: 15000, duration: 500 },  // bg7 -> bg8 at 15000m
+];
+
+// ===== Sound Configuration =====
+export const SOUND_CONFIG = {
+  masterVolume: 0.6,
+  sfxVolume: 0.8,
+  musicVolume: 0.35,
+  musicDuckLevel: 0,         // Music gain while the player screams (0 = paused) — keeps it out of the mic
+  duckTime: 0.08,            // Seconds to fade music down / back up
+  musicTempo: 132,           // Beats per minute
+  hoofFrames: [0, 3],        // Gallop animation frames where a hoof hits the ground
+  hoofCutoff: 160,           // Hz — hoofbeats stay below the voice band
+};
+
 // ===== Parallax Layer Speeds =====
 export const PARALLAX_SPEEDS = {
   sky: 0.1,
@@ -76,10 +305,15 @@ export const PARALLAX_SPEEDS = {
 export const UI_CONFIG = {
   volumeMeterWidth: 120,
   volumeMeterHeight: 12,
+  groundScale: 2,            // Ground pixels per metre (obstacles scroll at this rate)
+  ghostAlpha: 0.4,           // Opacity of the ghost horse
+  blinkAlpha: 0.25,          // Opacity of the horse on the off beats of its post-crash blink
 };
 
 // ===== Animation Timing =====
 export const TIMING = {
   gameOverDelay: 300,        // ms before showing game over screen
   fadeInDuration: 300,       // ms for UI fade transitions
+  calibrationDoneDelay: 1200, // ms to show the calibration result before the start screen
+  resumeCountdown: 3,        // Seconds counted down before a paused run carries on
 };
@@ -0,0 +1,135 @@
+import { COUNTDOWN_CONFIG } from './constants';
+import type { CountdownPhase, LaneReadiness } from './types';
+
+/**
+ * What the canvas shows during the countdown
+ */
+export interface CountdownDisplay {
+  title: string;
+  subtitle: string;
+  alert: boolean;   // Draw as a warning (false start, no signal, noisy room)
+}
+
+/**
+ * StartCountdown — The "3-2-1-SCREAM!" start sequence for every lane.
+ *
+ *   signal      wait until every microphone delivers signal
+ *   quiet       wait for the room to stay quiet for a moment
+ *   count       3-2-1; a voice now is a false start
+ *   falseStart  show who jumped the gun, then back to quiet
+ *   go          the run is on
+ *
+ * A file or demo voice plays regardless, so its lane is never waited on
+ * for quiet and can't false-start; Game rewinds it at GO instead.
+ *
+ * Pure bookkeeping — Game feeds it each lane's readiness every frame.
+ */
+export class StartCountdown {
+  private _phase: CountdownPhase = 'signal';
+  private phaseTime: number = 0;    // Seconds in the current phase
+  private quietTime: number = 0;    // Seconds the room has been quiet
+  private goTime: number = 0;       // Seconds since GO
+  private falseStartLane: number = 0;
+  private laneNames: string[];
+  readonly falseStarts: number[];
+
+  /**
+   * @param laneNames  Player names for false-start messages (one per lane;
+   *                   a single lane is just "you")
+   */
+  constructor(laneNames: string[]) {
+    this.laneNames = laneNames;
+    this.falseStarts = laneNames.map(() => 0);
+  }
+
+  get phase(): CountdownPhase {
+    return this._phase;
+  }
+
+  get isGo(): boolean {
+    return this._phase === 'go';
+  }
+
+  /**
+   * Still worth drawing (includes the moment "SCREAM!" stays up after GO)
+   */
+  get isVisible(): boolean {
+    return !this.isGo || this.goTime < COUNTDOWN_CONFIG.goTime;
+  }
+
+  update(seconds: number, lanes: LaneReadiness[]): void {
+    this.phaseTime += seconds;
+
+    switch (this._phase) {
+      case 'signal':
+        if (lanes.every(lane => lane.hasSignal)) {
+          this.enter('quiet');
+        }
+        break;
+
+      case 'quiet': {
+        const quiet = lanes.every(lane => !lane.live || lane.level < COUNTDOWN_CONFIG.quietLevel);
+        this.quietTime = quiet ? this.quietTime + seconds : 0;
+        if (this.quietTime >= COUNTDOWN_CONFIG.quietTime) {
+          this.enter('count');
+        }
+        break;
+      }
+
+      case 'count': {
+        const early = lanes.findIndex(lane => lane.live && lane.screaming);
+        if (early >= 0) {
+          this.falseStarts[early]++;
+          this.falseStartLane = early;
+          this.enter('falseStart');
+        } else if (this.phaseTime >= COUNTDOWN_CONFIG.countFrom) {
+          this.enter('go');
+        }
+        break;
+      }
+
+      case 'falseStart':
+        if (this.phaseTime >= COUNTDOWN_CONFIG.falseStartTime) {
+          this.enter('quiet');
+        }
+        break;
+
+      case 'go':
+        this.goTime += seconds;
+        break;
+    }
+  }
+
+  getDisplay(): CountdownDisplay {
+    const waiting = this.phaseTime >= COUNTDOWN_CONFIG.warnAfter;
+
+    switch (this._phase) {
+      case 'signal':
+        return waiting
+          ? { title: 'NO MIC SIGNAL', subtitle: 'Check the mic is plugged in and unmuted', alert: true }
+          : { title: 'CHECKING MIC…', subtitle: '', alert: false };
+      case 'quiet':
+        return waiting
+          ? { title: 'QUIET PLEASE!', subtitle: 'The room is too loud to start', alert: true }
+          : { title: 'GET READY…', subtitle: 'Quiet please!', alert: false };
+      case 'count':
+        return {
+          title: `${COUNTDOWN_CONFIG.countFrom - Math.floor(this.phaseTime)}`,
+          subtitle: 'Wait for it…',
+          alert: false,
+        };
+      case 'falseStart': {
+        const name = this.laneNames.length > 1 ? this.laneNames[this.falseStartLane] : '';
+        return { title: 'FALSE START!', subtitle: name ? `${name} jumped the gun` : 'Wait for SCREAM!', alert: true };
+      }
+      case 'go':
+        return { title: 'SCREAM!', subtitle: '', alert: false };
+    }
+  }
+
+  private enter(phase: CountdownPhase): void {
+    this._phase = phase;
+    this.phaseTime = 0;
+    this.quietTime = 0;
+  }
+}
@@ -0,0 +1,226 @@
+import { CANVAS_DIMENSIONS, COURSE_CONFIG, DEFAULT_DIFFICULTY } from './constants';
+import { Simulation } from './simulation';
+import { Horse } from './horse';
+import { courseAt, courseObstacleX, createObstacle } from './obstacle';
+import { getObstacleKind, OBSTACLE_KINDS } from './obstacle-kinds';
+import { validateCourse } from './course';
+import type { ObstacleType } from './obstacle';
+import type { Course, CourseObstacle, HitRect, HorseSnapshot, SimulationSnapshot } from './types';
+
+/**
+ * What the editor draws: the course scrolled to the view distance, and
+ * the box around the selected obstacle
+ */
+export interface CoursePreview {
+  snapshot: SimulationSnapshot;
+  selection: HitRect | null;
+}
+
+/**
+ * CourseEditor — The course being edited, the selected obstacle and where
+ * the preview is scrolled to. Pure model: UIManager turns clicks and form
+ * changes into calls here, Game draws getPreview() with the Renderer.
+ */
+export class CourseEditor {
+  private course: Course;
+  private selection: CourseObstacle | null = null;
+  private view: number = 0;           // Course distance at the horse's nose
+  private scene: SimulationSnapshot;  // Empty run the preview draws the course into
+
+  constructor(course: Course = { name: '', flyingMode: true, obstacles: [] }) {
+    this.course = { ...course, obstacles: course.obstacles.map(entry => ({ ...entry })) };
+    this.scene = this.createScene();
+  }
+
+  get name(): string {
+    return this.course.name;
+  }
+
+  get flyingMode(): boolean {
+    return this.course.flyingMode;
+  }
+
+  get obstacles(): readonly CourseObstacle[] {
+    return this.course.obstacles;
+  }
+
+  get selected(): CourseObstacle | null {
+    return this.selection;
+  }
+
+  get viewDistance(): number {
+    return this.view;
+  }
+
+  /**
+   * How far the preview can scroll
+   */
+  get length(): number {
+    const last = this.course.obstacles[this.course.obstacles.length - 1];
+    return (last?.distance ?? 0) + COURSE_CONFIG.viewMargin;
+  }
+
+  /**
+   * Obstacle kinds this course can use (a ground course only jumpable ones)
+   */
+  get kinds(): ObstacleType[] {
+    return (Object.keys(OBSTACLE_KINDS) as ObstacleType[])
+      .filter(type => this.course.flyingMode || getObstacleKind(type).jumpable);
+  }
+
+  rename(name: string): void {
+    this.course.name = name.slice(0, COURSE_CONFIG.maxNameLength);
+  }
+
+  /**
+   * Switch between a flown and a ground course. Going to the ground drops
+   * the kinds that can't be jumped and brings everything down to the street.
+   */
+  setFlyingMode(flyingMode: boolean): void {
+    this.course.flyingMode = flyingMode;
+    this.scene = this.createScene();
+    if (flyingMode) return;
+
+    const kinds = this.kinds;
+    this.course.obstacles = this.course.obstacles
+      .filter(entry => kinds.includes(entry.type))
+      .map(entry => Object.assign(entry, { altitude: 0 }));
+    if (this.selection && !this.course.obstacles.includes(this.selection)) {
+      this.selection = null;
+    }
+  }
+
+  scrollTo(distance: number): void {
+    this.view = Math.max(0, Math.min(this.length, distance));
+  }
+
+  /**
+   * Add an obstacle and select it (null if the course can't use `type`)
+   */
+  place(type: ObstacleType, distance: number, altitude: number): CourseObstacle | null {
+    if (!this.kinds.includes(type)) return null;
+
+    const entry: CourseObstacle = { type, distance: 0, altitude: 0 };
+    this.course.obstacles.push(entry);
+    this.selection = entry;
+    this.updateSelected({ distance, altitude });
+    return entry;
+  }
+
+  /**
+   * A click on the preview: select the obstacle under the point, or place a
+   * new `type` there (centred on the point)
+   */
+  clickAt(x: number, y: number, type: ObstacleType): void {
+    const hit = this.obstacleAt(x, y);
+    if (hit) {
+      this.selection = hit;
+      return;
+    }
+
+    const kind = getObstacleKind(type);
+    const spot = courseAt(x - kind.width / 2, y + kind.height / 2, this.view);
+    this.place(type, spot.distance, spot.altitude);
+  }
+
+  select(entry: CourseObstacle | null): void {
+    this.selection = entry && this.course.obstacles.includes(entry) ? entry : null;
+  }
+
+  /**
+   * Change the selected obstacle (distances and heights snap to the grid)
+   */
+  updateSelected(changes: Partial<CourseObstacle>): void {
+    const entry = this.selection;
+    if (!entry) return;
+
+    if (changes.type && this.kinds.includes(changes.type)) {
+      entry.type = changes.type;
+    }
+    if (changes.distance !== undefined && Number.isFinite(changes.distance)) {
+      entry.distance = Math.max(0, Math.round(changes.distance / COURSE_CONFIG.snap) * COURSE_CONFIG.snap);
+    }
+    if (changes.altitude !== undefined && Number.isFinite(changes.altitude)) {
+      const altitude = Math.round(changes.altitude / COURSE_CONFIG.snap) * COURSE_CONFIG.snap;
+      entry.altitude = Math.max(0, Math.min(COURSE_CONFIG.maxAltitude, altitude));
+    }
+    if (!this.course.flyingMode) {
+      entry.altitude = 0;
+    }
+    this.course.obstacles.sort((a, b) => a.distance - b.distance);
+  }
+
+  removeSelected(): void {
+    this.course.obstacles = this.course.obstacles.filter(entry => entry !== this.selection);
+    this.selection = null;
+  }
+
+  /**
+   * The course ready to save. Throws (with a message for the player) if it
+   * can't be saved yet.
+   */
+  getCourse(): Course {
+    if (this.course.obstacles.length === 0) {
+      throw new Error('Place at least one obstacle');
+    }
+    return validateCourse(this.course);
+  }
+
+  getPreview(): CoursePreview {
+    const obstacles = this.course.obstacles
+      .map(entry => createObstacle(entry.type, courseObstacleX(entry.distance, this.view), entry.altitude))
+      .filter(o => o.x + o.width > -50 && o.x < CANVAS_DIMENSIONS.width + 50);
+
+    const selection = this.selection
+      ? createObstacle(this.selection.type, courseObstacleX(this.selection.distance, this.view), this.selection.altitude)
+      : null;
+
+    return {
+      snapshot: {
+        ...this.scene,
+        state: { ...this.scene.state, distance: this.view },
+        horse: this.horseAt(this.view),
+        obstacles,
+      },
+      selection: selection && { x: selection.x, y: selection.y, width: selection.width, height: selection.height },
+    };
+  }
+
+  /**
+   * The course obstacle drawn at (`x`, `y`), topmost first
+   */
+  private obstacleAt(x: number, y: number): CourseObstacle | null {
+    for (const entry of [...this.course.obstacles].reverse()) {
+      const o = createObstacle(entry.type, courseObstacleX(entry.distance, this.view), entry.altitude);
+      if (x >= o.x && x <= o.x + o.width && y >= o.y && y <= o.y + o.height) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The horse as it would be at `distance` on this course (a flown course
+   * takes off from the start, at the bottom of the player's range)
+   */
+  private horseAt(distance: number): HorseSnapshot {
+    const horse = new Horse();
+    horse.setFlyingModeEnabled(this.course.flyingMode);
+    horse.setTransitionStart(0);
+    horse.update(0, 0, distance);
+    return horse.getSnapshot();
+  }
+
+  private createScene(): SimulationSnapshot {
+    return new Simulation({
+      flyingMode: this.course.flyingMode,
+      obstaclesEnabled: true,
+      staminaEnabled: false,
+      livesEnabled: false,
+      melodyMode: false,
+      difficulty: DEFAULT_DIFFICULTY,
+      course: null,
+      vocalRange: null,
+    }).getSnapshot();
+  }
+}
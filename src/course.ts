@@ -0,0 +1,129 @@
+import { COURSE_CONFIG } from './constants';
+import { getObstacleKind, OBSTACLE_KINDS } from './obstacle-kinds';
+import type { Course, CourseObstacle } from './types';
+
+/**
+ * Courses — Hand-made obstacle sequences built in the course editor.
+ * ObstacleManager plays one in place of random spawning; they are saved
+ * in the browser and shared as JSON files.
+ */
+
+const FILE_FORMAT = 'scream-race-course';
+
+/**
+ * Check a course read from a file, storage or a replay. Throws (with a
+ * message for the player) if it isn't one.
+ */
+export function validateCourse(data: unknown): Course {
+  const course = data as Partial<Course> | null;
+  if (!course || typeof course !== 'object' || !Array.isArray(course.obstacles)) {
+    throw new Error('Not a Scream Race course');
+  }
+
+  const name = typeof course.name === 'string' ? course.name.trim().slice(0, COURSE_CONFIG.maxNameLength) : '';
+  if (!name) {
+    throw new Error('The course needs a name');
+  }
+
+  // A ground course is jumped, so everything on it stands on the street
+  const flyingMode = Boolean(course.flyingMode);
+  const obstacles: CourseObstacle[] = course.obstacles.map(entry => {
+    const { distance, type, altitude } = (entry ?? {}) as Partial<CourseObstacle>;
+    if (typeof type !== 'string' || !Object.hasOwn(OBSTACLE_KINDS, type)) {
+      throw new Error(`Unknown obstacle "${String(type)}"`);
+    }
+    if (!flyingMode && !getObstacleKind(type).jumpable) {
+      throw new Error(`A ${type} can't be jumped on a ground course`);
+    }
+    if (!Number.isFinite(distance) || !Number.isFinite(altitude)) {
+      throw new Error(`Bad position for a ${type}`);
+    }
+    return {
+      distance: Math.max(0, distance!),
+      type,
+      altitude: flyingMode ? Math.min(COURSE_CONFIG.maxAltitude, Math.max(0, altitude!)) : 0,
+    };
+  });
+
+  return {
+    name,
+    flyingMode,
+    obstacles: obstacles.sort((a, b) => a.distance - b.distance),
+  };
+}
+
+/**
+ * Course file contents
+ */
+export function encodeCourse(course: Course): string {
+  return JSON.stringify({ format: FILE_FORMAT, ...course }, null, 2);
+}
+
+/**
+ * Parse a course file. Throws (with a message for the player) if the text
+ * is not a course.
+ */
+export function decodeCourse(text: string): Course {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Scream Race course');
+  }
+
+  if (data?.format !== FILE_FORMAT) {
+    throw new Error('Not a Scream Race course');
+  }
+  return validateCourse(data);
+}
+
+// ---------------------------------------------------------------------------
+//  Course library  (localStorage, keyed by name)
+// ---------------------------------------------------------------------------
+
+/**
+ * Every saved course, by name
+ */
+export function loadCourses(): Course[] {
+  try {
+    const raw = localStorage.getItem(COURSE_CONFIG.storageKey);
+    const courses: unknown[] = raw ? JSON.parse(raw) : [];
+    return courses.flatMap(course => {
+      try {
+        return [validateCourse(course)];
+      } catch (error) {
+        console.warn('Discarding unreadable course:', error);
+        return [];
+      }
+    }).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.warn('Failed to read courses:', error);
+    return [];
+  }
+}
+
+export function loadCourse(name: string): Course | null {
+  return loadCourses().find(course => course.name === name) ?? null;
+}
+
+/**
+ * Save `course`, replacing any saved course with the same name.
+ * Returns false if it couldn't be stored.
+ */
+export function saveCourse(course: Course): boolean {
+  return writeCourses([...loadCourses().filter(c => c.name !== course.name), course]);
+}
+
+export function deleteCourse(name: string): boolean {
+  return writeCourses(loadCourses().filter(course => course.name !== name));
+}
+
+function writeCourses(courses: Course[]): boolean {
+  try {
+    localStorage.setItem(COURSE_CONFIG.storageKey, JSON.stringify(courses));
+    return true;
+  } catch (error) {
+    console.warn('Failed to save courses:', error);
+    return false;
+  }
+}
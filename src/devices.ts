@@ -0,0 +1,73 @@
+import { DEVICE_CONFIG } from './constants';
+
+/**
+ * Microphone device helpers — Enumerates audio inputs and remembers the
+ * player's choice between sessions.
+ *
+ * Device labels are only filled in once microphone permission has been
+ * granted (e.g. after calibration); before that the list shows generic names.
+ */
+
+/**
+ * All audio input devices currently available.
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(d => d.kind === 'audioinput');
+  } catch (error) {
+    console.warn('Failed to enumerate microphones:', error);
+    return [];
+  }
+}
+
+/**
+ * Ask for microphone permission up front, so device labels and ids are
+ * available before any input is opened. Returns false if it was refused.
+ */
+export async function requestMicrophonePermission(): Promise<boolean> {
+  if (!navigator.mediaDevices?.getUserMedia) return false;
+
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach(track => track.stop());
+    return true;
+  } catch (error) {
+    console.warn('Microphone permission refused:', error);
+    return false;
+  }
+}
+
+/**
+ * Saved microphone choice ('' = browser default).
+ * `storageKey` selects whose choice: the main player's by default.
+ */
+export function loadPreferredMicId(storageKey: string = DEVICE_CONFIG.storageKey): string {
+  try {
+    return localStorage.getItem(storageKey) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function savePreferredMicId(deviceId: string, storageKey: string = DEVICE_CONFIG.storageKey): void {
+  try {
+    localStorage.setItem(storageKey, deviceId);
+  } catch (error) {
+    console.warn('Failed to save microphone choice:', error);
+  }
+}
+
+/**
+ * Call `onChange` whenever a device is plugged in or removed.
+ * Returns a function that removes the listener.
+ */
+export function watchDeviceChanges(onChange: () => void): () => void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices) return () => {};
+
+  mediaDevices.addEventListener('devicechange', onChange);
+  return () => mediaDevices.removeEventListener('devicechange', onChange);
+}
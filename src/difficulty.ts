@@ -0,0 +1,41 @@
+import { DIFFICULTY_PRESETS } from './constants';
+import type { Difficulty, DifficultyLevel, DifficultyPreset, DifficultyRamp } from './types';
+
+/**
+ * DifficultyCurve — How hard a run is at each distance.
+ *
+ * A preset (DIFFICULTY_PRESETS) gives every setting a start and end value;
+ * the curve blends between them as the run goes on, so obstacles come
+ * thicker, the sky gets busier, the world scrolls faster and silence is
+ * forgiven for less time.
+ */
+export class DifficultyCurve {
+  private preset: DifficultyPreset;
+
+  constructor(difficulty: Difficulty) {
+    this.preset = DIFFICULTY_PRESETS[difficulty];
+  }
+
+  /**
+   * Every setting at `distance` metres
+   */
+  at(distance: number): DifficultyLevel {
+    const progress = Math.min(1, Math.max(0, distance / this.preset.rampDistance));
+    const blend = (ramp: DifficultyRamp) => ramp.start + (ramp.end - ramp.start) * progress;
+
+    return {
+      minSpawnInterval: blend(this.preset.minSpawnInterval),
+      maxSpawnInterval: blend(this.preset.maxSpawnInterval),
+      aerialWeight: blend(this.preset.aerialWeight),
+      scrollMultiplier: blend(this.preset.scrollMultiplier),
+      silenceGrace: blend(this.preset.silenceGrace),
+    };
+  }
+}
+
+/**
+ * A difficulty name from storage or a file, falling back to the default
+ */
+export function parseDifficulty(value: unknown, fallback: Difficulty): Difficulty {
+  return typeof value === 'string' && Object.hasOwn(DIFFICULTY_PRESETS, value) ? value as Difficulty : fallback;
+}
@@ -0,0 +1,90 @@
+import { AUDIO_CONFIG } from './constants';
+import { detectPitch } from './pitch';
+import type { PitchDetectorOptions } from './pitch';
+import type { FeatureFrame } from './types';
+
+/**
+ * FeatureProcessor — AudioWorklet that turns the input into feature frames.
+ *
+ * Runs on the audio thread, so every sample is seen exactly once regardless
+ * of the game's frame rate. Every `hopSize` samples it posts one FeatureFrame:
+ *   - rms    over exactly those hop samples (no gaps, no overlap)
+ *   - pitch  over the last `windowSize` samples (YIN, see pitch.ts)
+ *
+ * Loaded by AudioManager via `?worker&url`, so Vite bundles the pitch import.
+ */
+
+// ===== AudioWorkletGlobalScope (not part of the DOM lib) =====
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+export interface FeatureProcessorOptions extends PitchDetectorOptions {
+  hopSize: number;     // Samples per feature frame
+  windowSize: number;  // Samples analysed for pitch
+}
+
+class FeatureProcessor extends AudioWorkletProcessor {
+  private options: FeatureProcessorOptions;
+  private ring: Float32Array;
+  private window: Float32Array;
+  private writeIndex: number = 0;
+  private hopCount: number = 0;
+  private hopSumSquares: number = 0;
+
+  constructor(nodeOptions: AudioWorkletNodeOptions) {
+    super(nodeOptions);
+    this.options = nodeOptions.processorOptions as FeatureProcessorOptions;
+    this.ring = new Float32Array(this.options.windowSize);
+    this.window = new Float32Array(this.options.windowSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;  // Input not connected yet
+
+    for (let i = 0; i < channel.length; i++) {
+      const sample = channel[i];
+      this.ring[this.writeIndex] = sample;
+      this.writeIndex = (this.writeIndex + 1) % this.ring.length;
+      this.hopSumSquares += sample * sample;
+      this.hopCount++;
+
+      if (this.hopCount >= this.options.hopSize) {
+        this.emitFrame(currentTime + (i + 1) / sampleRate);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Post the frame for the hop that just completed and start the next one.
+   */
+  private emitFrame(time: number): void {
+    // Unroll the ring buffer so the window is in chronological order
+    const tail = this.ring.subarray(this.writeIndex);
+    this.window.set(tail, 0);
+    this.window.set(this.ring.subarray(0, this.writeIndex), tail.length);
+
+    const frame: FeatureFrame = {
+      time,
+      duration: this.hopCount / sampleRate,
+      rms: Math.sqrt(this.hopSumSquares / this.hopCount),
+      pitch: detectPitch(this.window, sampleRate, this.options),
+    };
+    this.port.postMessage(frame);
+
+    this.hopCount = 0;
+    this.hopSumSquares = 0;
+  }
+}
+
+registerProcessor(AUDIO_CONFIG.featureProcessorName, FeatureProcessor);
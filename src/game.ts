@@ -1,131 +1,559 @@
-import { GAME_CONFIG, TIMING } from './constants';
+import { DEFAULT_DIFFICULTY, DEVICE_CONFIG, REPLAY_CONFIG, TIMING, VERSUS_CONFIG } from './constants';
 import { AudioManager } from './audio';
-import { Horse } from './horse';
 import { Renderer } from './renderer';
 import { UIManager } from './ui';
-import { ObstacleManager } from './obstacle';
-import type { GameState } from './types';
+import { SoundEngine } from './sound';
+import { RaceLane } from './lane';
+import { StartCountdown } from './countdown';
+import { parseDifficulty } from './difficulty';
+import { encodeCourse, loadCourse, saveCourse } from './course';
+import { CourseEditor } from './course-editor';
+import { judgeRace } from './versus';
+import { createRandom, dailySeed, dateKey, formatSeed, randomSeed } from './random';
+import { GhostRunner, ReplayRecorder, decodeReplay, encodeReplay, loadBestReplay, saveBestReplay } from './replay';
+import { MicCalibrator, loadVolumeProfile, saveVolumeProfile } from './calibration';
+import { loadVocalRange, saveVocalRange } from './vocal-range';
+import { AudioFileInputSource, MicrophoneInputSource, SyntheticInputSource } from './input';
+import { Tournament, savePlayerCalibration } from './tournament';
+import {
+  listMicrophones,
+  loadPreferredMicId,
+  requestMicrophonePermission,
+  savePreferredMicId,
+  watchDeviceChanges,
+} from './devices';
+import type { AudioInputSource } from './input';
+import type { Simulation } from './simulation';
+import type {
+  CalibrationPhase,
+  Course,
+  Difficulty,
+  GameState,
+  InputSample,
+  LaneResult,
+  PlayerCalibration,
+  Replay,
+  SimulationSnapshot,
+  StartRecord,
+  TournamentFormat,
+  VersusSettings,
+  VolumeProfile,
+} from './types';
 
 /**
- * Game class - Main game engine
+ * Run settings chosen on the start screen
+ */
+interface RunToggles {
+  flyingMode: boolean;
+  obstaclesEnabled: boolean;
+  staminaEnabled: boolean;
+  livesEnabled: boolean;
+  melodyMode: boolean;       // Sing the song (forces flying, no obstacles)
+  difficulty: Difficulty;    // Preset (the daily challenge is always the default)
+  course: Course | null;     // Hand-made course (sets flying, forces obstacles)
+  musicEnabled: boolean;
+  ghostEnabled: boolean;
+  dailyChallenge: boolean;   // Today's shared course (forces flying + obstacles)
+}
+
+/**
+ * Game class - Browser front end for the Simulation
  * Scream as long as you can! Stop screaming = game over
+ *
+ * Owns everything the simulation must not touch: the animation frame loop,
+ * audio input, DOM toggles, Renderer and UIManager. Each player's audio
+ * drives their own RaceLane, which steps a simulation in audio time, not
+ * frame time. A head-to-head race runs a second lane on a second microphone.
  */
 export class Game {
-  private canvas: HTMLCanvasElement;
   private renderer: Renderer;
   private audioManager: AudioManager;
   private uiManager: UIManager;
-  private horse: Horse;
-  private obstacleManager: ObstacleManager;
+  private soundEngine: SoundEngine;
 
-  private state: GameState;
+  private lane: RaceLane;           // The main player's lane
+  private lanes: RaceLane[];        // Every lane in the current run
+  private isRunning: boolean = false;
+  private isPaused: boolean = false;
+  private isRaceOver: boolean = false;
   private lastTime: number = 0;
   private animationFrameId: number | null = null;
-  private silenceTimer: number = 0;  // Track how long player has been silent
 
-  // Pitch tracking for flying horse
-  private referencePitch: number = 0;      // Reference pitch captured before flying
-  private currentPitch: number = 0;        // Current detected pitch
-  private readonly PITCH_CAPTURE_DISTANCE = 4500;  // Capture reference pitch at this distance
+  // Start sequence (3-2-1-SCREAM!) of the current run
+  private countdown: StartCountdown | null = null;
+  private musicForRun: boolean = false;         // Music starts at GO, so the quiet check can hear the room
+
+  // Course editor (null when closed)
+  private courseEditor: CourseEditor | null = null;
+
+  // Pause menu
+  private inPauseMenu: boolean = false;
+  private countdownTimer: number | null = null;  // Resume countdown in progress
+
+  // Hot-seat tournament (null = single player)
+  private tournament: Tournament | null = null;
+
+  // Head-to-head race (null = one player)
+  private versus: VersusSettings | null = null;
+  private rivalLane: RaceLane;
+  private rivalSource: MicrophoneInputSource | null = null;
+
+  // Ghost replays (solo runs only)
+  private recorder: ReplayRecorder | null = null;
+  private ghost: GhostRunner | null = null;
+  private lastReplay: Replay | null = null;     // Most recent finished run
+  private importedGhost: Replay | null = null;  // Loaded from a file; races instead of the best run
+
+  // Obstacle course of the current run
+  private courseSeed: number = 0;
+  private dailyDate: string | null = null;      // Set when playing the daily challenge
+
+  // Selected audio input (kept so the same source isn't reopened every run)
+  private inputSource: AudioInputSource | null = null;
+  private inputSourceKey: string = '';
+
+  // Microphone hot-swap
+  private stopWatchingDevices: () => void;
+  private pausedForDevice: boolean = false;     // Run was paused by a device change
+  private reconnecting: boolean = false;
+  private pendingDeviceChange: boolean = false; // Another change arrived mid-reconnect
 
   constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas;
     this.renderer = new Renderer(canvas);
     this.audioManager = new AudioManager();
     this.uiManager = new UIManager(this);
-    this.horse = new Horse();
-    this.obstacleManager = new ObstacleManager();
-
-    // Initialize game state
-    this.state = this.getInitialState();
+    this.soundEngine = new SoundEngine();
+    this.lane = new RaceLane(this.audioManager);
+    this.rivalLane = new RaceLane(new AudioManager());
+    this.lanes = [this.lane];
 
     // Bind methods
     this.gameLoop = this.gameLoop.bind(this);
     this.start = this.start.bind(this);
     this.restart = this.restart.bind(this);
+    this.handleDeviceChange = this.handleDeviceChange.bind(this);
+    this.handleRivalDisconnect = this.handleRivalDisconnect.bind(this);
+
+    // Reconnect when microphones are plugged in / unplugged
+    this.stopWatchingDevices = watchDeviceChanges(this.handleDeviceChange);
   }
 
   /**
-   * Get initial game state
+   * The main player's simulation (null before the first run)
    */
-  private getInitialState(): GameState {
-    return {
-      isRunning: false,
-      isPaused: false,
-      isGameOver: false,
-      distance: 0,
-      speed: 0,
-      volumeLevel: 0,
-      screamTime: 0,
-      isScreaming: false,
-      flyingMode: false,
-      obstaclesEnabled: false,
-    };
+  private get simulation(): Simulation | null {
+    return this.lane.getSimulation();
   }
 
   /**
    * Read toggle states from the DOM
    */
-  private readToggles(): { flyingMode: boolean; obstaclesEnabled: boolean } {
+  private readToggles(): RunToggles {
     const flyingToggle = document.getElementById('flying-mode-toggle') as HTMLInputElement;
     const obstaclesToggle = document.getElementById('obstacles-toggle') as HTMLInputElement;
-    const flyingMode = flyingToggle?.checked ?? false;
-    const obstaclesEnabled = flyingMode && (obstaclesToggle?.checked ?? false);
-    return { flyingMode, obstaclesEnabled };
+    const staminaToggle = document.getElementById('stamina-toggle') as HTMLInputElement;
+    const livesToggle = document.getElementById('lives-toggle') as HTMLInputElement;
+    const musicToggle = document.getElementById('music-toggle') as HTMLInputElement;
+    const ghostToggle = document.getElementById('ghost-toggle') as HTMLInputElement;
+    const dailyToggle = document.getElementById('daily-toggle') as HTMLInputElement;
+    const melodyToggle = document.getElementById('melody-toggle') as HTMLInputElement;
+    const difficultySelect = document.getElementById('difficulty-select') as HTMLSelectElement;
+    const courseSelect = document.getElementById('course-select') as HTMLSelectElement;
+    const dailyChallenge = dailyToggle?.checked ?? false;
+    const melodyMode = !dailyChallenge && (melodyToggle?.checked ?? false);
+    const course = dailyChallenge || melodyMode || !courseSelect?.value ? null : loadCourse(courseSelect.value);
+    const flyingMode = course ? course.flyingMode
+      : dailyChallenge || melodyMode || (flyingToggle?.checked ?? false);
+    const obstaclesEnabled = course !== null || dailyChallenge ||
+      (!melodyMode && (obstaclesToggle?.checked ?? false));
+    const staminaEnabled = staminaToggle?.checked ?? false;
+    const livesEnabled = livesToggle?.checked ?? false;
+    const musicEnabled = musicToggle?.checked ?? false;
+    const ghostEnabled = ghostToggle?.checked ?? false;
+    const difficulty = dailyChallenge
+      ? DEFAULT_DIFFICULTY
+      : parseDifficulty(difficultySelect?.value, DEFAULT_DIFFICULTY);
+    return {
+      flyingMode,
+      obstaclesEnabled,
+      staminaEnabled,
+      livesEnabled,
+      melodyMode,
+      difficulty,
+      course,
+      musicEnabled,
+      ghostEnabled,
+      dailyChallenge,
+    };
+  }
+
+  /**
+   * Build (or reuse) the audio input chosen in the input selector
+   */
+  private selectInputSource(): AudioInputSource {
+    const select = document.getElementById('input-source-select') as HTMLSelectElement;
+    const fileInput = document.getElementById('input-file') as HTMLInputElement;
+    const kind = select?.value ?? 'mic';
+    const file = fileInput?.files?.[0];
+
+    const micId = loadPreferredMicId();
+
+    let key = kind;
+    if (kind === 'file' && file) key = `file:${file.name}:${file.size}`;
+    if (kind === 'mic') key = `mic:${micId}`;
+    if (this.inputSource && key === this.inputSourceKey) {
+      return this.inputSource;
+    }
+
+    if (kind === 'file' && file) {
+      this.inputSource = new AudioFileInputSource(file);
+    } else if (kind === 'synthetic') {
+      this.inputSource = new SyntheticInputSource();
+    } else {
+      return this.useMicrophone(micId);
+    }
+    this.inputSourceKey = key;
+    return this.inputSource;
+  }
+
+  /**
+   * Make the given microphone the main input
+   */
+  private useMicrophone(deviceId: string): MicrophoneInputSource {
+    const microphone = new MicrophoneInputSource(deviceId);
+    microphone.onDisconnect = this.handleDeviceChange;
+    this.inputSource = microphone;
+    this.inputSourceKey = `mic:${deviceId}`;
+    return microphone;
   }
 
   /**
-   * Initialize the game and show start screen
+   * Initialize the game and show the mic calibration screen
    */
   async initialize(): Promise<void> {
-    this.uiManager.showStartScreen();
+    this.uiManager.showCalibrationScreen();
+    await this.refreshMicrophones();
+  }
+
+  /**
+   * Update the start screen's microphone picker
+   */
+  private async refreshMicrophones(): Promise<void> {
+    const devices = await listMicrophones();
+    this.uiManager.setMicDevices(devices, loadPreferredMicId());
+  }
+
+  /**
+   * A microphone was plugged in or removed (or our track ended).
+   * If the mic in use is gone, or the player's chosen mic came back,
+   * pause the run, reopen the input and carry on — never end the game.
+   */
+  private async handleDeviceChange(): Promise<void> {
+    if (this.reconnecting) {
+      this.pendingDeviceChange = true;
+      return;
+    }
+
+    // Player 2's mic is still missing: try again now that the devices changed
+    if (this.versus && this.rivalSource && !this.rivalSource.isLive) {
+      await this.handleRivalDisconnect();
+    }
+
+    const source = this.inputSource;
+    if (!(source instanceof MicrophoneInputSource)) {
+      await this.refreshMicrophones();
+      return;
+    }
+
+    // Pause straight away if our mic vanished, before the silence check ends the run
+    if (!source.isLive) {
+      this.pauseForDevice();
+    }
+
+    const devices = await listMicrophones();
+    const preferredId = loadPreferredMicId();
+    this.uiManager.setMicDevices(devices, preferredId);
+
+    const preferredReturned = preferredId !== '' &&
+      source.id !== preferredId &&
+      devices.some(d => d.deviceId === preferredId);
+    if (source.isLive && !preferredReturned) {
+      return;
+    }
+
+    this.pauseForDevice();
+    this.uiManager.showDeviceNotice('🔌 Reconnecting microphone...');
+    this.reconnecting = true;
+
+    this.inputSourceKey = '';  // Force a fresh stream
+    const connected = await this.audioManager.connect(this.selectInputSource());
+    this.reconnecting = false;
+
+    if (!connected) {
+      this.uiManager.showDeviceNotice('🎤 Plug in a microphone to continue');
+    } else {
+      this.uiManager.showDeviceNotice(`🎤 ${this.audioManager.getDeviceLabel()}`, DEVICE_CONFIG.noticeDuration);
+
+      if (this.pausedForDevice) {
+        this.pausedForDevice = false;
+        this.resume();
+      }
+    }
+
+    if (this.pendingDeviceChange) {
+      this.pendingDeviceChange = false;
+      await this.handleDeviceChange();
+    }
+  }
+
+  /**
+   * Player 2's microphone went away mid-race: pause and reopen it
+   */
+  private async handleRivalDisconnect(): Promise<void> {
+    if (!this.versus || this.reconnecting) return;
+    const name = VERSUS_CONFIG.playerNames[1];
+
+    this.pauseForDevice();
+    this.uiManager.showDeviceNotice(`🔌 Reconnecting ${name}'s mic...`);
+    this.reconnecting = true;
+
+    const rival = new MicrophoneInputSource(loadPreferredMicId(VERSUS_CONFIG.storageKey));
+    rival.onDisconnect = this.handleRivalDisconnect;
+    const connected = await this.rivalLane.audioManager.connect(rival);
+    this.reconnecting = false;
+
+    if (!connected) {
+      this.uiManager.showDeviceNotice(`🎤 Plug in ${name}'s mic to continue`);
+      return;
+    }
+
+    this.rivalSource = rival;
+    this.uiManager.showDeviceNotice(`🎤 ${this.rivalLane.audioManager.getDeviceLabel()}`, DEVICE_CONFIG.noticeDuration);
+    if (this.pausedForDevice) {
+      this.pausedForDevice = false;
+      this.resume();
+    }
+  }
+
+  /**
+   * Pause the current run while the microphone is swapped
+   */
+  private pauseForDevice(): void {
+    if (this.isRunning) {
+      this.pause();
+      this.pausedForDevice = true;
+    }
+  }
+
+  /**
+   * Calibrate the microphone: record silence, then screaming, and save the
+   * resulting floor / ceiling for this input device. Then record the player's
+   * lowest and highest note and save it as their vocal range.
+   * During a tournament both are saved for the player whose turn it is
+   * instead, so each player keeps their own calibration.
+   * Throws (with a message for the player) if the input couldn't be opened,
+   * the scream was too quiet or no clear notes were sung.
+   */
+  async calibrate(onProgress: (phase: CalibrationPhase, progress: number) => void): Promise<VolumeProfile> {
+    this.soundEngine.stop();
+    const inputEnabled = await this.audioManager.connect(this.selectInputSource());
+    if (!inputEnabled) {
+      throw new Error(this.audioManager.getConnectError());
+    }
+    await this.audioManager.resume();
+
+    // Device labels are available now that permission has been granted
+    await this.refreshMicrophones();
+
+    const calibrator = new MicCalibrator(this.audioManager);
+    const profile = await calibrator.run(onProgress);
+    this.audioManager.setVolumeProfile(profile);
+
+    const range = await calibrator.recordVocalRange(onProgress);
+
+    const player = this.tournament?.getCurrentTurn()?.player;
+    if (player) {
+      player.calibration = { profile, vocalRange: range };
+      savePlayerCalibration(player.name, player.calibration);
+    } else {
+      saveVolumeProfile(profile);
+      saveVocalRange(range);
+    }
+
+    onProgress('done', 1);
+    return profile;
   }
 
   /**
    * Start the game (called after mic permission granted)
    */
   async start(): Promise<boolean> {
-    // Request microphone access
-    const micEnabled = await this.audioManager.requestMicrophoneAccess();
+    // Open the selected audio input (asks for microphone access if needed)
+    const inputEnabled = await this.audioManager.connect(this.selectInputSource());
 
-    if (!micEnabled) {
-      alert('Microphone access is required to play! Please allow microphone access and try again.');
+    if (!inputEnabled) {
+      alert('Could not open the audio input! Please allow microphone access (or pick another input) and try again.');
       return false;
     }
 
     // Resume audio context (required by browsers after user interaction)
     await this.audioManager.resume();
+    await this.soundEngine.start();
+
+    this.beginRun();
+    return true;
+  }
+
+  /**
+   * Show the head-to-head setup. Asks for microphone access first, so
+   * both players can pick their mic by name.
+   */
+  async openVersus(): Promise<void> {
+    if (!(await requestMicrophonePermission())) {
+      alert('Head-to-head needs microphone access. Please allow it and try again.');
+      return;
+    }
 
-    const { flyingMode, obstaclesEnabled } = this.readToggles();
-
-    // Reset game state
-    this.state = this.getInitialState();
-    this.state.isRunning = true;
-    this.state.flyingMode = flyingMode;
-    this.state.obstaclesEnabled = obstaclesEnabled;
-    this.silenceTimer = 0;
-    this.referencePitch = 0;
-    this.currentPitch = 0;
-    this.horse.reset();
-    this.horse.setFlyingModeEnabled(flyingMode);
+    const devices = await listMicrophones();
+    this.uiManager.showVersusScreen(devices, [
+      loadPreferredMicId(),
+      loadPreferredMicId(VERSUS_CONFIG.storageKey),
+    ]);
+  }
+
+  /**
+   * Start a head-to-head race: player 1 on the main input, player 2 on a
+   * second AudioManager with its own stream, calibration and noise floor.
+   * Throws (with a message for the players) if the mics can't be opened.
+   */
+  async startVersus(micIds: string[], settings: VersusSettings): Promise<void> {
+    const [mainId, rivalId] = micIds;
+    if (mainId === rivalId) {
+      throw new Error('Pick a different mic for each player');
+    }
+
+    savePreferredMicId(mainId);
+    savePreferredMicId(rivalId, VERSUS_CONFIG.storageKey);
+    this.uiManager.setMicDevices(await listMicrophones(), mainId);
+
+    const rival = new MicrophoneInputSource(rivalId);
+    rival.onDisconnect = this.handleRivalDisconnect;
+    const connected = await this.audioManager.connect(this.useMicrophone(mainId)) &&
+      await this.rivalLane.audioManager.connect(rival);
+    if (!connected) {
+      throw new Error('Could not open both microphones');
+    }
+
+    // A missing device falls back to the default one, which may be the other player's
+    if (this.audioManager.getDeviceId() === this.rivalLane.audioManager.getDeviceId()) {
+      this.rivalLane.audioManager.disconnect();
+      throw new Error('Both players ended up on the same mic');
+    }
+
+    await this.audioManager.resume();
+    await this.rivalLane.audioManager.resume();
+    await this.soundEngine.start();
+
+    this.rivalSource = rival;
+    this.versus = settings;
+    this.lanes = [this.lane, this.rivalLane];
+    this.beginRun();
+  }
+
+  /**
+   * Set up a fresh simulation from the current toggles and start the loop
+   */
+  private beginRun(): void {
+    const { musicEnabled, ghostEnabled, dailyChallenge, ...mode } = this.readToggles();
+
+    // In a tournament, play with the current player's own calibration
+    const player = this.tournament?.getCurrentTurn()?.player;
+    if (player) {
+      this.applyPlayerCalibration(player.calibration);
+    }
+
+    // Head-to-head players learn their range as they go; the saved one
+    // belongs to whoever calibrated last
+    let vocalRange = player ? player.calibration.vocalRange : loadVocalRange();
+    if (this.versus) vocalRange = null;
+
+    // Solo runs are recorded, and race a ghost (an imported run, or the
+    // best in this mode) over the ghost's own obstacle course. The daily
+    // challenge always uses today's course, so only a ghost from it races.
+    const solo = !this.versus && !this.tournament;
+    let ghostReplay = solo && ghostEnabled
+      ? this.importedGhost ?? loadBestReplay(mode)
+      : null;
+    this.dailyDate = dailyChallenge ? dateKey() : null;
+    const seed = dailyChallenge ? dailySeed() : ghostReplay?.seed ?? randomSeed();
+    if (ghostReplay?.seed !== seed) ghostReplay = null;
+    this.courseSeed = seed;
+
+    // Fresh simulation for every lane (discards audio from before the run);
+    // every lane gets the same course
+    for (const lane of this.lanes) {
+      lane.begin({ ...mode, vocalRange, random: createRandom(seed) });
+    }
+    this.recorder = solo
+      ? new ReplayRecorder(seed, { ...mode, vocalRange })
+      : null;
+    this.ghost = ghostReplay ? new GhostRunner(ghostReplay) : null;
+    this.isRunning = true;
+    this.isPaused = false;
+    this.isRaceOver = false;
     this.renderer.reset();
-    this.obstacleManager.reset();
+
+    // No music in head-to-head: it would only be ducked for player 1's mic
+    this.musicForRun = musicEnabled && !this.versus;
+
+    // Nothing moves until the mic check and countdown say GO
+    const laneNames = this.versus ? VERSUS_CONFIG.playerNames : [player?.name ?? ''];
+    this.countdown = new StartCountdown(laneNames.slice(0, this.lanes.length));
+
+    // The engine may still be suspended if the last run was left from the pause menu
+    this.soundEngine.resume();
+    this.soundEngine.stop();
 
     // Show game HUD
-    this.uiManager.showGameHUD();
+    if (this.versus) {
+      this.uiManager.showVersusHUD();
+    } else {
+      this.uiManager.showGameHUD();
+    }
 
     // Start game loop
     this.lastTime = performance.now();
+    this.scheduleFrame();
+  }
+
+  /**
+   * Request the next animation frame, replacing any already requested so
+   * there is never more than one loop running
+   */
+  private scheduleFrame(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+    }
     this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  }
 
-    return true;
+  /**
+   * Use a player's volume calibration if it was made on the current input;
+   * otherwise fall back to the input's own saved profile.
+   */
+  private applyPlayerCalibration(calibration: PlayerCalibration): void {
+    const deviceId = this.audioManager.getDeviceId();
+    const profile = calibration.profile?.deviceId === deviceId
+      ? calibration.profile
+      : loadVolumeProfile(deviceId);
+    this.audioManager.setVolumeProfile(profile);
   }
 
   /**
    * Main game loop
    */
   private gameLoop(currentTime: number): void {
-    if (!this.state.isRunning || this.state.isGameOver) {
+    if (!this.isRunning) {
       return;
     }
 
@@ -137,192 +565,422 @@ export class Game {
     this.update(deltaTime);
 
     // Render
-    this.render(currentTime, deltaTime);
+    this.render(deltaTime);
 
     // Continue loop
     this.animationFrameId = requestAnimationFrame(this.gameLoop);
   }
 
   /**
-   * Update game state
+   * Feed the audio that arrived since the last frame into every lane
    */
   private update(deltaTime: number): void {
-    const deltaSeconds = deltaTime / 1000;
-
-    // Get current volume level from microphone
-    this.state.volumeLevel = this.audioManager.getVolumeLevel();
-
-    // Get current pitch for flying horse control
-    this.currentPitch = this.audioManager.getPitch();
-
-    // Check if currently screaming
-    this.state.isScreaming = this.state.volumeLevel > GAME_CONFIG.volumeThreshold;
-
-    // Update scream time and silence detection
-    if (this.state.isScreaming) {
-      // Reset silence timer when screaming
-      this.silenceTimer = 0;
-      // Accumulate scream time
-      this.state.screamTime += deltaSeconds;
-      // Calculate speed based on volume
-      this.updateSpeed();
-
-      console.log('currentPitch', this.currentPitch);
-      console.log('referencePitch', this.referencePitch);
-
-      // Capture reference pitch just before flying starts (around 4500m-5000m)
-      // Only if flying mode is enabled
-      if (this.state.flyingMode &&
-        this.state.distance >= this.PITCH_CAPTURE_DISTANCE &&
-        this.state.distance < 5000 &&
-        this.currentPitch > 0) {
-        this.referencePitch = this.currentPitch;
+    // Before GO the lanes only listen: mic check, quiet room, 3-2-1
+    const countdown = this.countdown;
+    if (countdown && !countdown.isGo) {
+      countdown.update(deltaTime / 1000, this.lanes.map(lane => lane.listen(deltaTime)));
+      if (countdown.isGo) {
+        // A file or demo voice starts over, so it begins at GO like a player would
+        this.lanes.forEach(lane => lane.audioManager.restartInput());
+        this.soundEngine.beginRun(this.musicForRun);
       }
-    } else {
-      // Track silence duration
-      this.silenceTimer += deltaSeconds;
+      return;
+    }
+    countdown?.update(deltaTime / 1000, []);
+
+    // Sound, recording and the ghost follow the main player
+    // (two sets of hoofbeats would just be noise)
+    for (const lane of this.lanes) {
+      const onStep = lane === this.lane
+        ? (snapshot: SimulationSnapshot, input: InputSample) => {
+          this.soundEngine.update(snapshot);
+          this.recorder?.record(input);
+          this.ghost?.step();
+        }
+        : undefined;
+      lane.update(deltaTime, onStep);
+    }
 
-      // Game over if silent for too long (with grace period)
-      if (this.silenceTimer >= GAME_CONFIG.silenceGracePeriod && this.state.screamTime > 0) {
-        this.gameOver();
-        return;
+    if (this.versus) {
+      const verdict = judgeRace(this.lanes.map(lane => lane.getSimulation()!.getState()), this.versus);
+      if (verdict.over) {
+        this.versusOver(verdict.winner);
       }
-
-      // Slow down when not screaming
-      this.state.speed = Math.max(0, this.state.speed - 200 * deltaSeconds);
+      return;
     }
 
-    // Accumulate distance based on speed
-    this.state.distance += this.state.speed * deltaSeconds;
+    const simulation = this.simulation;
+    if (!simulation) return;
 
-    // Update horse animation (pass distance and pitch for flying transition)
-    this.horse.update(
-      deltaTime,
-      this.state.speed,
-      this.state.distance,
-      this.currentPitch,
-      this.referencePitch
-    );
-
-    // Update obstacles (only when obstacles toggle is on)
-    if (this.state.obstaclesEnabled) {
-      this.obstacleManager.update(this.state.distance, this.state.speed, deltaTime);
-
-      // Check for collision with obstacles
-      const bounds = this.horse.getBounds();
-      if (this.obstacleManager.checkCollision(bounds.x, bounds.y, bounds.width, bounds.height)) {
-        this.gameOver();
-        return;
-      }
+    if (simulation.isGameOver) {
+      this.gameOver();
+      return;
     }
 
-    // Update parallax background
-    this.renderer.updateParallax(this.state.speed, deltaTime);
-
     // Update UI
-    this.uiManager.updateHUD(this.state);
+    this.uiManager.updateHUD(simulation.getState());
   }
 
   /**
-   * Calculate current speed based on volume level
+   * Render the game
    */
-  private updateSpeed(): void {
-    // volumeLevel is already 0–1 (mapped from mic min/max in AudioManager)
-    const above = this.state.volumeLevel - GAME_CONFIG.volumeThreshold;
-    const normalised = Math.max(0, above) / (1 - GAME_CONFIG.volumeThreshold);
+  private render(deltaTime: number): void {
+    if (!this.simulation) return;
+
+    if (this.versus) {
+      const finishDistance = this.versus.rule === 'finish' ? this.versus.finishDistance : null;
+      this.renderer.renderLanes(this.lanes.map((lane, index) => ({
+        label: VERSUS_CONFIG.playerNames[index],
+        snapshot: lane.getSimulation()!.getSnapshot(),
+        finishDistance,
+      })), deltaTime);
+      this.drawCountdown();
+      return;
+    }
 
-    this.state.speed = GAME_CONFIG.baseSpeed + normalised * GAME_CONFIG.maxSpeedBoost;
+    this.renderer.render(this.simulation.getSnapshot(), deltaTime, this.ghost?.getSnapshot() ?? null);
+    this.drawCountdown();
+  }
+
+  private drawCountdown(): void {
+    if (this.countdown?.isVisible) {
+      this.renderer.drawCountdown(this.countdown.getDisplay());
+    }
   }
 
   /**
-   * Render the game
+   * How the player in lane `index` got off the line
    */
-  private render(time: number, deltaTime: number): void {
-    this.renderer.render(
-      this.horse,
-      time,
-      this.state.distance,
-      this.state.obstaclesEnabled ? this.obstacleManager : undefined,
-      deltaTime,
-      this.state.obstaclesEnabled
-    );
+  private startRecord(index: number): StartRecord {
+    return {
+      reactionTime: this.lanes[index].getSimulation()?.getState().reactionTime ?? null,
+      falseStarts: this.countdown?.falseStarts[index] ?? 0,
+    };
   }
 
   /**
-   * Handle game over
+   * Stop the loop at the end of a run
    */
-  private gameOver(): void {
-    this.state.isGameOver = true;
-    this.state.isRunning = false;
-    this.state.speed = 0;
+  private stopRun(): void {
+    this.isRunning = false;
+    this.isRaceOver = true;
+    this.soundEngine.endRun();
 
     // Stop animation loop
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+  }
+
+  /**
+   * Handle game over
+   */
+  private gameOver(): void {
+    const state = this.simulation!.getState();
+    this.stopRun();
+
+    // Score the turn before anything else can start the next one
+    const start = this.startRecord(0);
+    const tournament = this.tournament;
+    const player = tournament?.getCurrentTurn()?.player.name;
+    if (tournament && player) {
+      tournament.recordResult(Math.floor(state.score), state.screamTime, start);
+    }
+
+    // Keep the replay; a new best becomes the ghost for this mode
+    const replay = this.recorder?.finish(state) ?? null;
+    const isNewBest = replay !== null && saveBestReplay(replay);
+    if (replay) this.lastReplay = replay;
+    this.recorder = null;
 
     // Show game over screen after brief delay
     setTimeout(() => {
       this.uiManager.showGameOverScreen(
-        Math.floor(this.state.distance),
-        this.state.screamTime
+        Math.floor(state.score),
+        state.screamTime,
+        state.outOfBreath
       );
+      this.uiManager.showCourse(formatSeed(this.courseSeed), this.dailyDate);
+      this.uiManager.showStartRecord(start);
+      if (state.melody) {
+        this.uiManager.showMelodyResult(state.melody);
+      }
+      if (replay) {
+        this.uiManager.showReplayControls(isNewBest);
+      }
+      if (tournament && player) {
+        this.uiManager.showScoreboard(
+          player,
+          tournament.getStandings(),
+          tournament.getCurrentTurn(),
+          tournament.getChampion()
+        );
+      }
     }, TIMING.gameOverDelay);
   }
 
   /**
-   * Restart the game
+   * Handle the end of a head-to-head race
+   */
+  private versusOver(winner: number | null): void {
+    this.stopRun();
+
+    const results: LaneResult[] = this.lanes.map((lane, index) => {
+      const state = lane.getSimulation()!.getState();
+      return {
+        name: VERSUS_CONFIG.playerNames[index],
+        distance: state.score,
+        screamTime: state.screamTime,
+        start: this.startRecord(index),
+      };
+    });
+
+    setTimeout(() => {
+      this.uiManager.showVersusResult(results, winner);
+      this.uiManager.showCourse(formatSeed(this.courseSeed), this.dailyDate);
+    }, TIMING.gameOverDelay);
+  }
+
+  /**
+   * Restart the game (in a tournament: hand over to the next player)
    */
   restart(): void {
-    const { flyingMode, obstaclesEnabled } = this.readToggles();
-
-    // Reset state
-    this.state = this.getInitialState();
-    this.state.isRunning = true;
-    this.state.flyingMode = flyingMode;
-    this.state.obstaclesEnabled = obstaclesEnabled;
-    this.silenceTimer = 0;
-    this.referencePitch = 0;
-    this.currentPitch = 0;
-    this.horse.reset();
-    this.horse.setFlyingModeEnabled(flyingMode);
+    if (!this.tournament) {
+      this.beginRun();
+      return;
+    }
+
+    const next = this.tournament.getCurrentTurn();
+    if (next) {
+      this.uiManager.showTurnScreen(next);
+    } else {
+      this.endTournament();
+    }
+  }
+
+  /**
+   * Begin a hot-seat tournament. Throws (with a message for the players)
+   * if the line-up doesn't suit the format.
+   */
+  startTournament(names: string[], format: TournamentFormat, rounds: number): void {
+    this.tournament = new Tournament(names, format, rounds);
+    this.uiManager.showTurnScreen(this.tournament.getCurrentTurn()!);
+  }
+
+  /**
+   * Leave the tournament and go back to single player
+   */
+  endTournament(): void {
+    this.tournament = null;
+    this.audioManager.setVolumeProfile(loadVolumeProfile(this.audioManager.getDeviceId()));
+    this.uiManager.showStartScreen();
+  }
+
+  /**
+   * Race an exported run's ghost from now on. A course run is only a fair
+   * race on the same course, so that is saved here too. Throws (with a
+   * message for the player) if the file isn't a replay this game can play.
+   */
+  importReplay(text: string): Replay {
+    const replay = decodeReplay(text);
+    if (replay.course) {
+      const saved = loadCourse(replay.course.name);
+      if (saved && encodeCourse(saved) !== encodeCourse(replay.course)) {
+        throw new Error(`A different course called "${replay.course.name}" is already saved`);
+      }
+      if (!saved && !saveCourse(replay.course)) {
+        throw new Error('Couldn\'t save the replay\'s course');
+      }
+    }
+    this.importedGhost = replay;
+    return replay;
+  }
+
+  /**
+   * The last finished solo run as a replay file, or null if there isn't one
+   */
+  exportReplay(): { filename: string; contents: string } | null {
+    if (!this.lastReplay) return null;
+    return {
+      filename: `scream-race-${Math.floor(this.lastReplay.distance)}m${REPLAY_CONFIG.fileExtension}`,
+      contents: encodeReplay(this.lastReplay),
+    };
+  }
+
+  /**
+   * Open the course editor on `course` (or a new, empty one)
+   */
+  openCourseEditor(course: Course | null): CourseEditor {
+    this.courseEditor = new CourseEditor(course ?? undefined);
     this.renderer.reset();
-    this.obstacleManager.reset();
+    this.renderCourseEditor();
+    return this.courseEditor;
+  }
 
-    // Show HUD
-    this.uiManager.showGameHUD();
+  /**
+   * Draw the course being edited (after every change)
+   */
+  renderCourseEditor(): void {
+    if (!this.courseEditor) return;
+    const { snapshot, selection } = this.courseEditor.getPreview();
+    this.renderer.render(snapshot, 0);
+    this.renderer.drawCourseGuides(this.courseEditor.viewDistance, selection);
+  }
 
-    // Start game loop
-    this.lastTime = performance.now();
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  closeCourseEditor(): void {
+    this.courseEditor = null;
+    this.renderer.clear();
   }
 
   /**
-   * Pause the game
+   * Abandon the current run or match and go back to the start screen
+   */
+  quit(): void {
+    this.abandonRun();
+
+    // Back to one player on one mic
+    this.versus = null;
+    this.rivalSource = null;
+    this.lanes = [this.lane];
+    this.rivalLane.audioManager.disconnect();
+
+    this.endTournament();
+  }
+
+  /**
+   * Play the current run again from the start (from the pause menu).
+   * A tournament turn isn't scored, so the same player goes again.
+   */
+  restartRun(): void {
+    this.abandonRun();
+    this.beginRun();
+  }
+
+  /**
+   * Stop the current run without scoring it
+   */
+  private abandonRun(): void {
+    this.closePauseMenu();
+    this.isRunning = false;
+    this.isPaused = false;
+    this.isRaceOver = true;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.soundEngine.stop();
+    this.recorder = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Pausing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Esc / P / the pause button: open the pause menu, or resume from it
+   */
+  togglePause(): void {
+    if (this.inPauseMenu) {
+      this.resumeFromMenu();
+    } else {
+      this.openPauseMenu();
+    }
+  }
+
+  /**
+   * Pause the run and show the pause menu (also used when the tab is hidden)
+   */
+  openPauseMenu(): void {
+    if (this.inPauseMenu) return;
+
+    if (this.countdownTimer !== null) {
+      // Paused again during the resume countdown
+      clearTimeout(this.countdownTimer);
+      this.countdownTimer = null;
+      this.uiManager.hideResumeCountdown();
+    } else if (this.isRunning) {
+      this.pause();
+    } else {
+      return;
+    }
+
+    this.inPauseMenu = true;
+    this.uiManager.showPauseMenu();
+  }
+
+  /**
+   * Leave the pause menu: count down so players can take a breath, then
+   * carry on (the silence timer starts again only after the countdown)
+   */
+  resumeFromMenu(): void {
+    if (!this.inPauseMenu) return;
+    this.inPauseMenu = false;
+    this.uiManager.hidePauseMenu();
+    this.countDown(TIMING.resumeCountdown);
+  }
+
+  private countDown(remaining: number): void {
+    if (remaining <= 0) {
+      this.countdownTimer = null;
+      this.uiManager.hideResumeCountdown();
+      this.resume();
+      return;
+    }
+
+    this.uiManager.showResumeCountdown(remaining);
+    this.countdownTimer = window.setTimeout(() => this.countDown(remaining - 1), 1000);
+  }
+
+  private closePauseMenu(): void {
+    if (this.countdownTimer !== null) {
+      clearTimeout(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+    this.inPauseMenu = false;
+    this.uiManager.hidePauseMenu();
+    this.uiManager.hideResumeCountdown();
+  }
+
+  /**
+   * Pause the game loop (no menu — see openPauseMenu)
    */
   pause(): void {
-    this.state.isPaused = true;
-    this.state.isRunning = false;
+    this.isPaused = true;
+    this.isRunning = false;
+    this.soundEngine.pause();
+
+    // Stop the loop outright so resuming can't leave two running
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
   }
 
   /**
    * Resume the game
    */
   resume(): void {
-    if (this.state.isPaused && !this.state.isGameOver) {
-      this.state.isPaused = false;
-      this.state.isRunning = true;
+    if (this.isPaused && this.simulation && !this.isRaceOver) {
+      this.isPaused = false;
+      this.isRunning = true;
+      this.soundEngine.resume();
+      this.lanes.forEach(lane => lane.skipInput());  // Audio heard while paused doesn't count
       this.lastTime = performance.now();
-      this.animationFrameId = requestAnimationFrame(this.gameLoop);
+      this.scheduleFrame();
     }
   }
 
   /**
    * Get current game state
    */
-  getState(): GameState {
-    return { ...this.state };
+  getState(): GameState | null {
+    if (!this.simulation) return null;
+    return {
+      ...this.simulation.getState(),
+      isRunning: this.isRunning,
+      isPaused: this.isPaused,
+    };
   }
 
   /**
@@ -332,6 +990,9 @@ export class Game {
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
+    this.stopWatchingDevices();
     this.audioManager.dispose();
+    this.rivalLane.audioManager.dispose();
+    this.soundEngine.dispose();
   }
 }
@@ -0,0 +1,28 @@
+import type { HitRect } from './types';
+
+/**
+ * Collision shapes — Lists of rectangles: the horse's come from its sprite
+ * sheets (see horse-hitboxes.ts), each obstacle kind declares its own.
+ */
+
+/**
+ * Move a shape to (`x`, `y`), scaling it by `scaleX` × `scaleY` first
+ * (obstacle shapes are given in 0–1 units of the obstacle's size)
+ */
+export function placeShape(shape: HitRect[], x: number, y: number, scaleX: number = 1, scaleY: number = 1): HitRect[] {
+  return shape.map(rect => ({
+    x: x + rect.x * scaleX,
+    y: y + rect.y * scaleY,
+    width: rect.width * scaleX,
+    height: rect.height * scaleY,
+  }));
+}
+
+export function rectsOverlap(a: HitRect, b: HitRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+    a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function shapesOverlap(a: HitRect[], b: HitRect[]): boolean {
+  return a.some(rectA => b.some(rectB => rectsOverlap(rectA, rectB)));
+}
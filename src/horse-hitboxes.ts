@@ -0,0 +1,385 @@
+// Generated by scripts/generate-hitboxes.mjs from the horse sprite sheets.
+// Do not edit by hand: run `npm run hitboxes` after changing a sprite.
+
+import type { HitRect } from './types';
+
+/**
+ * Collision rectangles for each animation frame of each sheet, in sprite
+ * pixels from the frame's top-left corner
+ */
+export const HORSE_HITBOXES: Record<'running' | 'flying', HitRect[][]> = {
+  running: [
+    [
+      { x: 200, y: 16, width: 8, height: 8 },
+      { x: 168, y: 24, width: 48, height: 8 },
+      { x: 160, y: 32, width: 56, height: 8 },
+      { x: 160, y: 40, width: 64, height: 8 },
+      { x: 152, y: 48, width: 80, height: 8 },
+      { x: 64, y: 56, width: 64, height: 8 },
+      { x: 144, y: 56, width: 56, height: 8 },
+      { x: 208, y: 56, width: 24, height: 8 },
+      { x: 40, y: 64, width: 152, height: 8 },
+      { x: 216, y: 64, width: 8, height: 8 },
+      { x: 40, y: 72, width: 40, height: 8 },
+      { x: 88, y: 72, width: 104, height: 32 },
+      { x: 56, y: 80, width: 8, height: 8 },
+      { x: 80, y: 104, width: 40, height: 8 },
+      { x: 160, y: 104, width: 40, height: 8 },
+      { x: 80, y: 112, width: 16, height: 8 },
+      { x: 104, y: 112, width: 16, height: 16 },
+      { x: 184, y: 112, width: 24, height: 8 },
+      { x: 72, y: 120, width: 16, height: 32 },
+      { x: 168, y: 120, width: 40, height: 8 },
+      { x: 112, y: 128, width: 16, height: 8 },
+      { x: 160, y: 128, width: 24, height: 8 },
+      { x: 200, y: 128, width: 16, height: 16 },
+      { x: 120, y: 136, width: 16, height: 8 },
+      { x: 128, y: 144, width: 8, height: 8 },
+    ],
+    [
+      { x: 208, y: 8, width: 8, height: 8 },
+      { x: 184, y: 16, width: 40, height: 8 },
+      { x: 168, y: 24, width: 56, height: 8 },
+      { x: 168, y: 32, width: 64, height: 8 },
+      { x: 72, y: 40, width: 24, height: 8 },
+      { x: 104, y: 40, width: 24, height: 8 },
+      { x: 160, y: 40, width: 80, height: 8 },
+      { x: 64, y: 48, width: 176, height: 8 },
+      { x: 40, y: 56, width: 40, height: 8 },
+      { x: 88, y: 56, width: 120, height: 8 },
+      { x: 224, y: 56, width: 16, height: 8 },
+      { x: 48, y: 64, width: 32, height: 8 },
+      { x: 88, y: 64, width: 112, height: 8 },
+      { x: 96, y: 72, width: 104, height: 8 },
+      { x: 104, y: 80, width: 88, height: 8 },
+      { x: 104, y: 88, width: 32, height: 8 },
+      { x: 144, y: 88, width: 48, height: 8 },
+      { x: 96, y: 96, width: 40, height: 8 },
+      { x: 168, y: 96, width: 32, height: 8 },
+      { x: 104, y: 104, width: 32, height: 8 },
+      { x: 176, y: 104, width: 32, height: 8 },
+      { x: 112, y: 112, width: 24, height: 8 },
+      { x: 152, y: 112, width: 48, height: 8 },
+      { x: 120, y: 120, width: 24, height: 8 },
+      { x: 160, y: 120, width: 8, height: 8 },
+      { x: 176, y: 120, width: 16, height: 8 },
+      { x: 120, y: 128, width: 32, height: 8 },
+      { x: 176, y: 128, width: 8, height: 8 },
+    ],
+    [
+      { x: 208, y: 8, width: 8, height: 8 },
+      { x: 176, y: 16, width: 40, height: 8 },
+      { x: 168, y: 24, width: 56, height: 8 },
+      { x: 160, y: 32, width: 64, height: 8 },
+      { x: 80, y: 40, width: 8, height: 8 },
+      { x: 104, y: 40, width: 24, height: 8 },
+      { x: 152, y: 40, width: 80, height: 8 },
+      { x: 64, y: 48, width: 176, height: 8 },
+      { x: 48, y: 56, width: 32, height: 8 },
+      { x: 88, y: 56, width: 112, height: 16 },
+      { x: 224, y: 56, width: 8, height: 8 },
+      { x: 40, y: 64, width: 40, height: 8 },
+      { x: 88, y: 72, width: 104, height: 8 },
+      { x: 96, y: 80, width: 96, height: 8 },
+      { x: 104, y: 88, width: 32, height: 8 },
+      { x: 144, y: 88, width: 56, height: 8 },
+      { x: 96, y: 96, width: 32, height: 8 },
+      { x: 160, y: 96, width: 16, height: 8 },
+      { x: 192, y: 96, width: 16, height: 8 },
+      { x: 104, y: 104, width: 24, height: 8 },
+      { x: 168, y: 104, width: 8, height: 8 },
+      { x: 192, y: 104, width: 8, height: 8 },
+      { x: 112, y: 112, width: 16, height: 8 },
+      { x: 144, y: 112, width: 32, height: 8 },
+      { x: 184, y: 112, width: 16, height: 8 },
+      { x: 120, y: 120, width: 16, height: 8 },
+      { x: 152, y: 120, width: 16, height: 8 },
+      { x: 184, y: 120, width: 8, height: 8 },
+      { x: 128, y: 128, width: 8, height: 8 },
+      { x: 128, y: 136, width: 16, height: 8 },
+    ],
+    [
+      { x: 176, y: 16, width: 16, height: 8 },
+      { x: 152, y: 24, width: 48, height: 8 },
+      { x: 144, y: 32, width: 56, height: 8 },
+      { x: 136, y: 40, width: 64, height: 8 },
+      { x: 48, y: 48, width: 24, height: 8 },
+      { x: 80, y: 48, width: 16, height: 8 },
+      { x: 128, y: 48, width: 80, height: 8 },
+      { x: 40, y: 56, width: 136, height: 8 },
+      { x: 192, y: 56, width: 24, height: 8 },
+      { x: 24, y: 64, width: 32, height: 8 },
+      { x: 64, y: 64, width: 112, height: 16 },
+      { x: 200, y: 64, width: 8, height: 8 },
+      { x: 24, y: 72, width: 24, height: 8 },
+      { x: 64, y: 80, width: 104, height: 8 },
+      { x: 72, y: 88, width: 96, height: 8 },
+      { x: 80, y: 96, width: 80, height: 8 },
+      { x: 72, y: 104, width: 32, height: 8 },
+      { x: 136, y: 104, width: 32, height: 8 },
+      { x: 72, y: 112, width: 24, height: 8 },
+      { x: 136, y: 112, width: 16, height: 8 },
+      { x: 160, y: 112, width: 16, height: 8 },
+      { x: 80, y: 120, width: 16, height: 8 },
+      { x: 112, y: 120, width: 40, height: 8 },
+      { x: 160, y: 120, width: 8, height: 8 },
+      { x: 80, y: 128, width: 24, height: 8 },
+      { x: 112, y: 128, width: 56, height: 8 },
+      { x: 88, y: 136, width: 24, height: 8 },
+      { x: 96, y: 144, width: 16, height: 8 },
+    ],
+    [
+      { x: 168, y: 16, width: 24, height: 8 },
+      { x: 152, y: 24, width: 48, height: 8 },
+      { x: 144, y: 32, width: 56, height: 8 },
+      { x: 80, y: 40, width: 16, height: 8 },
+      { x: 136, y: 40, width: 72, height: 8 },
+      { x: 48, y: 48, width: 168, height: 8 },
+      { x: 32, y: 56, width: 144, height: 8 },
+      { x: 192, y: 56, width: 24, height: 8 },
+      { x: 16, y: 64, width: 40, height: 8 },
+      { x: 64, y: 64, width: 112, height: 8 },
+      { x: 24, y: 72, width: 24, height: 8 },
+      { x: 64, y: 72, width: 104, height: 8 },
+      { x: 72, y: 80, width: 96, height: 8 },
+      { x: 80, y: 88, width: 88, height: 8 },
+      { x: 72, y: 96, width: 32, height: 16 },
+      { x: 136, y: 96, width: 32, height: 8 },
+      { x: 136, y: 104, width: 16, height: 8 },
+      { x: 160, y: 104, width: 16, height: 8 },
+      { x: 88, y: 112, width: 16, height: 8 },
+      { x: 112, y: 112, width: 64, height: 8 },
+      { x: 96, y: 120, width: 16, height: 8 },
+      { x: 120, y: 120, width: 48, height: 8 },
+      { x: 96, y: 128, width: 24, height: 8 },
+      { x: 112, y: 136, width: 16, height: 8 },
+    ],
+    [
+      { x: 152, y: 8, width: 40, height: 8 },
+      { x: 136, y: 16, width: 56, height: 16 },
+      { x: 128, y: 32, width: 72, height: 8 },
+      { x: 128, y: 40, width: 80, height: 8 },
+      { x: 40, y: 48, width: 136, height: 8 },
+      { x: 192, y: 48, width: 16, height: 8 },
+      { x: 32, y: 56, width: 136, height: 8 },
+      { x: 16, y: 64, width: 32, height: 8 },
+      { x: 56, y: 64, width: 112, height: 16 },
+      { x: 24, y: 72, width: 16, height: 8 },
+      { x: 56, y: 80, width: 104, height: 8 },
+      { x: 56, y: 88, width: 40, height: 8 },
+      { x: 112, y: 88, width: 56, height: 8 },
+      { x: 48, y: 96, width: 40, height: 8 },
+      { x: 152, y: 96, width: 24, height: 8 },
+      { x: 48, y: 104, width: 32, height: 8 },
+      { x: 160, y: 104, width: 16, height: 8 },
+      { x: 48, y: 112, width: 8, height: 8 },
+      { x: 64, y: 112, width: 16, height: 8 },
+      { x: 152, y: 112, width: 24, height: 8 },
+      { x: 40, y: 120, width: 16, height: 16 },
+      { x: 72, y: 120, width: 16, height: 8 },
+      { x: 152, y: 120, width: 8, height: 8 },
+      { x: 168, y: 120, width: 16, height: 8 },
+      { x: 80, y: 128, width: 8, height: 8 },
+      { x: 176, y: 128, width: 16, height: 8 },
+      { x: 80, y: 136, width: 16, height: 8 },
+    ],
+  ],
+  flying: [
+    [
+      { x: 64, y: 8, width: 24, height: 8 },
+      { x: 72, y: 16, width: 48, height: 8 },
+      { x: 200, y: 16, width: 8, height: 8 },
+      { x: 72, y: 24, width: 64, height: 8 },
+      { x: 168, y: 24, width: 48, height: 8 },
+      { x: 80, y: 32, width: 64, height: 16 },
+      { x: 160, y: 32, width: 56, height: 8 },
+      { x: 160, y: 40, width: 64, height: 8 },
+      { x: 88, y: 48, width: 144, height: 8 },
+      { x: 64, y: 56, width: 136, height: 8 },
+      { x: 208, y: 56, width: 24, height: 8 },
+      { x: 40, y: 64, width: 152, height: 8 },
+      { x: 216, y: 64, width: 8, height: 8 },
+      { x: 40, y: 72, width: 40, height: 8 },
+      { x: 88, y: 72, width: 104, height: 32 },
+      { x: 56, y: 80, width: 8, height: 8 },
+      { x: 80, y: 104, width: 40, height: 8 },
+      { x: 168, y: 104, width: 32, height: 8 },
+      { x: 80, y: 112, width: 16, height: 8 },
+      { x: 104, y: 112, width: 16, height: 16 },
+      { x: 184, y: 112, width: 24, height: 8 },
+      { x: 72, y: 120, width: 16, height: 8 },
+      { x: 168, y: 120, width: 40, height: 8 },
+      { x: 72, y: 128, width: 8, height: 8 },
+      { x: 112, y: 128, width: 16, height: 8 },
+      { x: 160, y: 128, width: 24, height: 8 },
+      { x: 200, y: 128, width: 16, height: 16 },
+      { x: 72, y: 136, width: 16, height: 16 },
+      { x: 120, y: 136, width: 16, height: 8 },
+      { x: 128, y: 144, width: 8, height: 8 },
+    ],
+    [
+      { x: 64, y: 0, width: 24, height: 8 },
+      { x: 112, y: 0, width: 24, height: 8 },
+      { x: 72, y: 8, width: 96, height: 8 },
+      { x: 72, y: 16, width: 104, height: 8 },
+      { x: 184, y: 16, width: 40, height: 8 },
+      { x: 80, y: 24, width: 144, height: 8 },
+      { x: 80, y: 32, width: 152, height: 8 },
+      { x: 72, y: 40, width: 168, height: 8 },
+      { x: 64, y: 48, width: 176, height: 8 },
+      { x: 40, y: 56, width: 40, height: 8 },
+      { x: 88, y: 56, width: 112, height: 16 },
+      { x: 224, y: 56, width: 16, height: 8 },
+      { x: 48, y: 64, width: 32, height: 8 },
+      { x: 96, y: 72, width: 104, height: 8 },
+      { x: 104, y: 80, width: 88, height: 8 },
+      { x: 104, y: 88, width: 32, height: 8 },
+      { x: 144, y: 88, width: 48, height: 8 },
+      { x: 96, y: 96, width: 40, height: 8 },
+      { x: 168, y: 96, width: 32, height: 8 },
+      { x: 104, y: 104, width: 32, height: 8 },
+      { x: 176, y: 104, width: 32, height: 8 },
+      { x: 112, y: 112, width: 24, height: 8 },
+      { x: 152, y: 112, width: 48, height: 8 },
+      { x: 120, y: 120, width: 24, height: 8 },
+      { x: 160, y: 120, width: 8, height: 8 },
+      { x: 176, y: 120, width: 16, height: 8 },
+      { x: 120, y: 128, width: 32, height: 8 },
+      { x: 176, y: 128, width: 8, height: 8 },
+      { x: 72, y: 136, width: 8, height: 8 },
+      { x: 72, y: 144, width: 24, height: 8 },
+      { x: 176, y: 144, width: 16, height: 8 },
+      { x: 64, y: 152, width: 40, height: 5 },
+      { x: 168, y: 152, width: 16, height: 5 },
+    ],
+    [
+      { x: 64, y: 0, width: 56, height: 8 },
+      { x: 160, y: 0, width: 24, height: 8 },
+      { x: 72, y: 8, width: 64, height: 8 },
+      { x: 160, y: 8, width: 32, height: 8 },
+      { x: 208, y: 8, width: 8, height: 8 },
+      { x: 72, y: 16, width: 72, height: 8 },
+      { x: 152, y: 16, width: 64, height: 8 },
+      { x: 80, y: 24, width: 64, height: 8 },
+      { x: 152, y: 24, width: 72, height: 8 },
+      { x: 88, y: 32, width: 136, height: 8 },
+      { x: 80, y: 40, width: 8, height: 8 },
+      { x: 104, y: 40, width: 128, height: 8 },
+      { x: 64, y: 48, width: 176, height: 8 },
+      { x: 56, y: 56, width: 24, height: 8 },
+      { x: 88, y: 56, width: 112, height: 16 },
+      { x: 224, y: 56, width: 8, height: 8 },
+      { x: 40, y: 64, width: 40, height: 8 },
+      { x: 88, y: 72, width: 104, height: 8 },
+      { x: 96, y: 80, width: 96, height: 8 },
+      { x: 104, y: 88, width: 32, height: 8 },
+      { x: 144, y: 88, width: 56, height: 8 },
+      { x: 104, y: 96, width: 24, height: 16 },
+      { x: 160, y: 96, width: 16, height: 8 },
+      { x: 192, y: 96, width: 16, height: 8 },
+      { x: 168, y: 104, width: 8, height: 8 },
+      { x: 192, y: 104, width: 8, height: 8 },
+      { x: 112, y: 112, width: 16, height: 8 },
+      { x: 144, y: 112, width: 32, height: 8 },
+      { x: 184, y: 112, width: 16, height: 8 },
+      { x: 120, y: 120, width: 16, height: 8 },
+      { x: 152, y: 120, width: 16, height: 8 },
+      { x: 184, y: 120, width: 8, height: 8 },
+      { x: 128, y: 128, width: 8, height: 8 },
+      { x: 128, y: 136, width: 16, height: 8 },
+    ],
+    [
+      { x: 40, y: 8, width: 16, height: 8 },
+      { x: 72, y: 8, width: 24, height: 8 },
+      { x: 40, y: 16, width: 88, height: 8 },
+      { x: 176, y: 16, width: 16, height: 8 },
+      { x: 40, y: 24, width: 104, height: 8 },
+      { x: 152, y: 24, width: 48, height: 8 },
+      { x: 48, y: 32, width: 152, height: 8 },
+      { x: 56, y: 40, width: 144, height: 8 },
+      { x: 48, y: 48, width: 160, height: 8 },
+      { x: 40, y: 56, width: 136, height: 8 },
+      { x: 192, y: 56, width: 24, height: 8 },
+      { x: 24, y: 64, width: 32, height: 8 },
+      { x: 64, y: 64, width: 112, height: 16 },
+      { x: 200, y: 64, width: 8, height: 8 },
+      { x: 24, y: 72, width: 24, height: 8 },
+      { x: 64, y: 80, width: 104, height: 8 },
+      { x: 72, y: 88, width: 96, height: 8 },
+      { x: 80, y: 96, width: 80, height: 8 },
+      { x: 72, y: 104, width: 32, height: 8 },
+      { x: 136, y: 104, width: 32, height: 8 },
+      { x: 72, y: 112, width: 16, height: 8 },
+      { x: 136, y: 112, width: 16, height: 8 },
+      { x: 160, y: 112, width: 16, height: 8 },
+      { x: 80, y: 120, width: 16, height: 8 },
+      { x: 112, y: 120, width: 40, height: 8 },
+      { x: 160, y: 120, width: 8, height: 8 },
+      { x: 80, y: 128, width: 24, height: 8 },
+      { x: 112, y: 128, width: 56, height: 8 },
+      { x: 88, y: 136, width: 24, height: 8 },
+      { x: 96, y: 144, width: 16, height: 8 },
+    ],
+    [
+      { x: 168, y: 16, width: 24, height: 8 },
+      { x: 152, y: 24, width: 48, height: 8 },
+      { x: 144, y: 32, width: 56, height: 8 },
+      { x: 80, y: 40, width: 16, height: 8 },
+      { x: 136, y: 40, width: 72, height: 8 },
+      { x: 48, y: 48, width: 168, height: 8 },
+      { x: 32, y: 56, width: 144, height: 8 },
+      { x: 192, y: 56, width: 24, height: 8 },
+      { x: 16, y: 64, width: 40, height: 8 },
+      { x: 64, y: 64, width: 112, height: 8 },
+      { x: 24, y: 72, width: 24, height: 8 },
+      { x: 64, y: 72, width: 120, height: 16 },
+      { x: 56, y: 88, width: 136, height: 8 },
+      { x: 56, y: 96, width: 64, height: 8 },
+      { x: 136, y: 96, width: 64, height: 8 },
+      { x: 56, y: 104, width: 56, height: 8 },
+      { x: 136, y: 104, width: 16, height: 8 },
+      { x: 160, y: 104, width: 48, height: 8 },
+      { x: 56, y: 112, width: 48, height: 8 },
+      { x: 112, y: 112, width: 40, height: 8 },
+      { x: 160, y: 112, width: 16, height: 8 },
+      { x: 192, y: 112, width: 16, height: 8 },
+      { x: 56, y: 120, width: 32, height: 8 },
+      { x: 96, y: 120, width: 16, height: 8 },
+      { x: 120, y: 120, width: 48, height: 8 },
+      { x: 64, y: 128, width: 16, height: 8 },
+      { x: 96, y: 128, width: 24, height: 8 },
+      { x: 112, y: 136, width: 16, height: 8 },
+    ],
+    [
+      { x: 160, y: 8, width: 32, height: 8 },
+      { x: 144, y: 16, width: 48, height: 8 },
+      { x: 136, y: 24, width: 56, height: 8 },
+      { x: 128, y: 32, width: 72, height: 8 },
+      { x: 96, y: 40, width: 24, height: 8 },
+      { x: 128, y: 40, width: 80, height: 8 },
+      { x: 40, y: 48, width: 136, height: 8 },
+      { x: 192, y: 48, width: 16, height: 8 },
+      { x: 32, y: 56, width: 136, height: 8 },
+      { x: 16, y: 64, width: 32, height: 8 },
+      { x: 56, y: 64, width: 112, height: 16 },
+      { x: 24, y: 72, width: 16, height: 8 },
+      { x: 56, y: 80, width: 104, height: 8 },
+      { x: 40, y: 88, width: 128, height: 8 },
+      { x: 40, y: 96, width: 40, height: 8 },
+      { x: 96, y: 96, width: 16, height: 8 },
+      { x: 136, y: 96, width: 40, height: 8 },
+      { x: 32, y: 104, width: 8, height: 8 },
+      { x: 48, y: 104, width: 16, height: 8 },
+      { x: 160, y: 104, width: 16, height: 8 },
+      { x: 16, y: 112, width: 24, height: 8 },
+      { x: 48, y: 112, width: 8, height: 8 },
+      { x: 152, y: 112, width: 16, height: 8 },
+      { x: 176, y: 112, width: 8, height: 8 },
+      { x: 40, y: 120, width: 16, height: 8 },
+      { x: 152, y: 120, width: 8, height: 8 },
+      { x: 176, y: 120, width: 16, height: 8 },
+      { x: 32, y: 128, width: 16, height: 8 },
+      { x: 184, y: 128, width: 8, height: 8 },
+    ],
+  ],
+};
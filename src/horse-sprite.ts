@@ -0,0 +1,103 @@
+import type { HorseSnapshot } from './types';
+
+/**
+ * HorseSprite - Draws a Horse snapshot from the sprite sheets
+ * Running and flying sheets share one layout: 2 columns x 3 rows = 6 frames,
+ * reading top-to-bottom, then left-to-right. Cross-fades between the two
+ * while the horse turns into a Pegasus, and spins it once around its
+ * middle while it tumbles after a crash.
+ */
+export class HorseSprite {
+  // Running sprite sheet
+  private spriteSheet: HTMLImageElement;
+  private spriteLoaded: boolean = false;
+
+  // Flying sprite sheet
+  private flyingSpriteSheet: HTMLImageElement;
+  private flyingSpriteLoaded: boolean = false;
+
+  // Sprite sheet layout: 2 columns x 3 rows = 6 frames
+  private readonly cols = 2;
+  private readonly rows = 3;
+
+  constructor() {
+    // Load running sprite sheet
+    this.spriteSheet = new Image();
+    this.spriteSheet.onload = () => {
+      this.spriteLoaded = true;
+    };
+    this.spriteSheet.src = '/horse-sprite.png';
+
+    // Load flying sprite sheet
+    this.flyingSpriteSheet = new Image();
+    this.flyingSpriteSheet.onload = () => {
+      this.flyingSpriteLoaded = true;
+    };
+    this.flyingSpriteSheet.src = '/horse-sprite-flying.png';
+  }
+
+  /**
+   * @param opacity  Overall opacity (the ghost horse is drawn translucent)
+   */
+  draw(ctx: CanvasRenderingContext2D, horse: HorseSnapshot, opacity: number = 1): void {
+    if (!this.spriteLoaded) {
+      // Draw placeholder while loading
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      ctx.fillStyle = '#C4884D';
+      ctx.fillRect(horse.x, horse.y, horse.width, horse.height);
+      ctx.restore();
+      return;
+    }
+
+    // Layout: 2 columns x 3 rows, reading top-to-bottom, then left-to-right
+    const row = horse.frame % this.rows;
+    const col = Math.floor(horse.frame / this.rows);
+
+    ctx.save();
+    if (horse.tumble > 0) {
+      // Head over heels backwards
+      const centerX = horse.x + horse.width / 2;
+      const centerY = horse.y + horse.height / 2;
+      ctx.translate(centerX, centerY);
+      ctx.rotate(-horse.tumble * Math.PI * 2);
+      ctx.translate(-centerX, -centerY);
+    }
+
+    // Draw running horse (fading out during transition)
+    if (horse.flyProgress < 1) {
+      ctx.globalAlpha = opacity * (1 - horse.flyProgress);
+      this.drawFrame(ctx, this.spriteSheet, col, row, horse);
+    }
+
+    // Draw flying horse (fading in during transition)
+    if (horse.flyProgress > 0 && this.flyingSpriteLoaded) {
+      ctx.globalAlpha = opacity * horse.flyProgress;
+      this.drawFrame(ctx, this.flyingSpriteSheet, col, row, horse);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw one cell of a sprite sheet at the horse's position
+   */
+  private drawFrame(
+    ctx: CanvasRenderingContext2D,
+    sheet: HTMLImageElement,
+    col: number,
+    row: number,
+    horse: HorseSnapshot
+  ): void {
+    const frameWidth = sheet.width / this.cols;
+    const frameHeight = sheet.height / this.rows;
+
+    ctx.drawImage(
+      sheet,
+      col * frameWidth, row * frameHeight,
+      frameWidth, frameHeight,
+      horse.x, horse.y,
+      horse.width, horse.height
+    );
+  }
+}
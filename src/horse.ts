@@ -1,10 +1,17 @@
-import { HORSE_CONFIG } from './constants';
-import type { Position } from './types';
+import { HORSE_CONFIG, JUMP_CONFIG, LIVES_CONFIG } from './constants';
+import { pitchToRangePosition } from './vocal-range';
+import { HORSE_HITBOXES } from './horse-hitboxes';
+import { placeShape } from './hitbox';
+import type { HitRect, HorseSnapshot, Position, VocalRange } from './types';
 
 /**
- * Horse class - Uses sprite sheet for animation
- * 6-frame galloping animation from sprite sheet image
- * Transitions to flying horse (Pegasus) at 15000m
+ * Horse class - Position, gallop animation and flying for the player's horse
+ * 6-frame galloping animation (frames of the sprite sheet, see HorseSprite)
+ * Transitions to flying horse (Pegasus) at 5000m
+ * Jumps along a gravity arc while running on the ground
+ * Tumbles head over heels, thrown back, when it crashes (lives rule)
+ *
+ * Pure model: no images or canvas, so it runs headless inside Simulation.
  */
 export class Horse {
   private x: number;
@@ -13,24 +20,11 @@ export class Horse {
   private frameTimer: number = 0;
   private animationSpeed: number = HORSE_CONFIG.baseAnimationSpeed;
 
-  // Running sprite sheet
-  private spriteSheet: HTMLImageElement;
-  private spriteLoaded: boolean = false;
+  private readonly totalFrames = HORSE_CONFIG.animationFrames;
 
-  // Flying sprite sheet
-  private flyingSpriteSheet: HTMLImageElement;
-  private flyingSpriteLoaded: boolean = false;
-  private flyingFrameWidth: number = 0;
-  private flyingFrameHeight: number = 0;
-
-  // Sprite sheet layout: 2 columns x 3 rows = 6 frames
-  private readonly cols = 2;
-  private readonly rows = 3;
-  private readonly totalFrames = 6;
-
-  // Each frame dimensions (will be calculated after image loads)
-  private frameWidth: number = 0;
-  private frameHeight: number = 0;
+  // Each frame's size on screen (matches one cell of the sprite sheets)
+  private readonly frameWidth = HORSE_CONFIG.frameWidth;
+  private readonly frameHeight = HORSE_CONFIG.frameHeight;
 
   // Display scale
   private readonly scale = 1;
@@ -39,8 +33,9 @@ export class Horse {
   private readonly TRANSITION_START = 5000;  // Start transition at 5000m
   private readonly TRANSITION_DURATION = 500; // Over 500m
   private readonly BASE_FLY_HEIGHT = 0;      // Base height when flying
-  private readonly MAX_PITCH_HEIGHT = 400;   // Max height above neutral when pitch is high
+  private readonly MAX_PITCH_HEIGHT = 400;   // Height reached at the top of the vocal range
   private currentDistance: number = 0;
+  private transitionStart: number = this.TRANSITION_START;
 
   // Flying challenge mode (off by default)
   private flyingModeEnabled: boolean = false;
@@ -49,30 +44,17 @@ export class Horse {
   private currentPitchHeight: number = 0;     // Current extra height from pitch
   private targetPitchHeight: number = 0;      // Target height (smoothed)
 
+  // Jumping (ground only)
+  private jumpHeight: number = 0;             // Pixels above the street
+  private jumpVelocity: number = 0;           // Pixels per second, upwards
+
+  // Crash tumble (lives rule)
+  private readonly homeX = 50;                // Where the horse gallops on screen
+  private tumbleTime: number = 0;             // Seconds of tumble left
+
   constructor() {
-    this.x = 50;
-    this.y = HORSE_CONFIG.groundY;
-
-    // Load running sprite sheet
-    this.spriteSheet = new Image();
-    this.spriteSheet.onload = () => {
-      this.spriteLoaded = true;
-      // Calculate frame dimensions from the loaded image
-      this.frameWidth = this.spriteSheet.width / this.cols;
-      this.frameHeight = this.spriteSheet.height / this.rows;
-      // Adjust Y position based on sprite height
-      this.y = HORSE_CONFIG.groundY - (this.frameHeight * this.scale);
-    };
-    this.spriteSheet.src = '/horse-sprite.png';
-
-    // Load flying sprite sheet
-    this.flyingSpriteSheet = new Image();
-    this.flyingSpriteSheet.onload = () => {
-      this.flyingSpriteLoaded = true;
-      this.flyingFrameWidth = this.flyingSpriteSheet.width / this.cols;
-      this.flyingFrameHeight = this.flyingSpriteSheet.height / this.rows;
-    };
-    this.flyingSpriteSheet.src = '/horse-sprite-flying.png';
+    this.x = this.homeX;
+    this.y = this.getGroundY();
   }
 
   getPosition(): Position {
@@ -86,17 +68,80 @@ export class Horse {
     this.flyingModeEnabled = enabled;
   }
 
+  /**
+   * Distance the Pegasus transition starts at (melody mode flies from the start)
+   */
+  setTransitionStart(distance: number): void {
+    this.transitionStart = distance;
+  }
+
+  /**
+   * Y of the horse's top edge when fully flying at `rangePosition`
+   * (0 = bottom of the vocal range, 1 = top)
+   */
+  getFlyingY(rangePosition: number): number {
+    return this.getGroundY() - this.BASE_FLY_HEIGHT - rangePosition * this.MAX_PITCH_HEIGHT;
+  }
+
+  /**
+   * Leap into the air. Only works with all four hooves on the street
+   * (not mid-jump, not flying). Returns true if the horse jumped.
+   */
+  jump(): boolean {
+    if (!this.isOnGround) return false;
+    this.jumpVelocity = JUMP_CONFIG.velocity;
+    return true;
+  }
+
+  /**
+   * Knock the horse back head over heels after a crash. On the street it is
+   * bounced into the air too.
+   */
+  crash(): void {
+    this.tumbleTime = LIVES_CONFIG.tumbleDuration;
+    if (this.isOnGround) {
+      this.jumpVelocity = JUMP_CONFIG.velocity / 2;
+    }
+  }
+
+  get isTumbling(): boolean {
+    return this.tumbleTime > 0;
+  }
+
+  get isOnGround(): boolean {
+    return this.jumpHeight === 0 && this.getTransitionProgress() === 0;
+  }
+
   /**
    * Get collision bounds for the horse
    */
   getBounds(): { x: number; y: number; width: number; height: number } {
-    const width = this.spriteLoaded ? this.frameWidth * this.scale : 80;
-    const height = this.spriteLoaded ? this.frameHeight * this.scale : 60;
     return {
       x: this.x,
       y: this.y,
-      width: width,
-      height: height,
+      width: this.frameWidth * this.scale,
+      height: this.frameHeight * this.scale,
+    };
+  }
+
+  /**
+   * Collision shape of the current animation frame, from whichever sprite
+   * sheet shows most while the horse turns into a Pegasus
+   */
+  getHitbox(): HitRect[] {
+    const sheet = this.getTransitionProgress() >= 0.5 ? HORSE_HITBOXES.flying : HORSE_HITBOXES.running;
+    return placeShape(sheet[this.currentFrame], this.x, this.y, this.scale, this.scale);
+  }
+
+  /**
+   * Everything needed to draw the horse this frame
+   */
+  getSnapshot(): HorseSnapshot {
+    return {
+      ...this.getBounds(),
+      frame: this.currentFrame,
+      flyProgress: this.getTransitionProgress(),
+      tumble: this.tumbleTime > 0 ? 1 - this.tumbleTime / LIVES_CONFIG.tumbleDuration : 0,
     };
   }
 
@@ -105,7 +150,7 @@ export class Horse {
     speed: number,
     distance: number = 0,
     currentPitch: number = 0,
-    referencePitch: number = 0
+    vocalRange: VocalRange | null = null
   ): void {
     // Track current distance for sprite transition
     this.currentDistance = distance;
@@ -137,24 +182,46 @@ export class Horse {
     const flyProgress = this.getTransitionProgress();
 
     // Pitch controls flying height: high pitch = fly higher, low pitch = fly lower
-    if (flyProgress > 0 && referencePitch > 0 && currentPitch > 0) {
-      // Reference pitch = neutral height. Difference from reference maps to up/down.
-      const pitchRatio = currentPitch / referencePitch;
-      const rawOffset = (pitchRatio - 1) * this.MAX_PITCH_HEIGHT;
-      this.targetPitchHeight = Math.max(0, Math.min(this.MAX_PITCH_HEIGHT, rawOffset));
+    if (flyProgress > 0 && vocalRange && currentPitch > 0) {
+      // Low note of the player's range = ground level, high note = max height,
+      // spaced evenly in semitones in between
+      const rangePosition = pitchToRangePosition(currentPitch, vocalRange);
+      this.targetPitchHeight = rangePosition * this.MAX_PITCH_HEIGHT;
       const smoothing = deltaTime * 0.005;
       this.currentPitchHeight += (this.targetPitchHeight - this.currentPitchHeight) * smoothing;
     } else {
       this.currentPitchHeight += (0 - this.currentPitchHeight) * (deltaTime * 0.005);
     }
 
-    // Calculate Y position - horse rises when transitioning to flying
-    if (this.spriteLoaded) {
-      const baseY = HORSE_CONFIG.groundY - (this.frameHeight * this.scale);
-      const baseFlyOffset = flyProgress * this.BASE_FLY_HEIGHT;
-      const pitchFlyOffset = flyProgress * this.currentPitchHeight;
-      this.y = baseY - baseFlyOffset - pitchFlyOffset;
+    // Jump arc: rise, then fall back under gravity until the hooves land
+    if (this.jumpHeight > 0 || this.jumpVelocity > 0) {
+      const deltaSeconds = deltaTime / 1000;
+      this.jumpVelocity -= JUMP_CONFIG.gravity * deltaSeconds;
+      this.jumpHeight += this.jumpVelocity * deltaSeconds;
+      if (this.jumpHeight <= 0) {
+        this.jumpHeight = 0;
+        this.jumpVelocity = 0;
+      }
+    }
+
+    // Tumble: thrown back, then galloping back into place
+    if (this.tumbleTime > 0) {
+      this.tumbleTime = Math.max(0, this.tumbleTime - deltaTime / 1000);
+      const progress = 1 - this.tumbleTime / LIVES_CONFIG.tumbleDuration;
+      this.x = this.homeX - Math.sin(progress * Math.PI) * LIVES_CONFIG.knockback;
     }
+
+    // Calculate Y position - horse rises when transitioning to flying
+    const baseFlyOffset = flyProgress * this.BASE_FLY_HEIGHT;
+    const pitchFlyOffset = flyProgress * this.currentPitchHeight;
+    this.y = this.getGroundY() - baseFlyOffset - pitchFlyOffset - this.jumpHeight;
+  }
+
+  /**
+   * Y position of the horse's top edge when standing on the street
+   */
+  private getGroundY(): number {
+    return HORSE_CONFIG.groundY - (this.frameHeight * this.scale);
   }
 
   /**
@@ -163,68 +230,11 @@ export class Horse {
    */
   private getTransitionProgress(): number {
     if (!this.flyingModeEnabled) return 0;
-    if (this.currentDistance < this.TRANSITION_START) return 0;
-    const progress = (this.currentDistance - this.TRANSITION_START) / this.TRANSITION_DURATION;
+    if (this.currentDistance < this.transitionStart) return 0;
+    const progress = (this.currentDistance - this.transitionStart) / this.TRANSITION_DURATION;
     return Math.min(1, Math.max(0, progress));
   }
 
-  draw(ctx: CanvasRenderingContext2D): void {
-    if (!this.spriteLoaded) {
-      // Draw placeholder while loading
-      ctx.fillStyle = '#C4884D';
-      ctx.fillRect(this.x, this.y - 60, 80, 60);
-      return;
-    }
-
-    // Calculate which frame to draw from the sprite sheet
-    // Layout: 2 columns x 3 rows, reading top-to-bottom, then left-to-right
-    const row = this.currentFrame % this.rows;
-    const col = Math.floor(this.currentFrame / this.rows);
-
-    const sourceX = col * this.frameWidth;
-    const sourceY = row * this.frameHeight;
-
-    const destWidth = this.frameWidth * this.scale;
-    const destHeight = this.frameHeight * this.scale;
-
-    // Get transition progress
-    const flyProgress = this.getTransitionProgress();
-
-    ctx.save();
-
-    // Draw running horse (fading out during transition)
-    if (flyProgress < 1) {
-      ctx.globalAlpha = 1 - flyProgress;
-      ctx.drawImage(
-        this.spriteSheet,
-        sourceX, sourceY,
-        this.frameWidth, this.frameHeight,
-        this.x, this.y,
-        destWidth, destHeight
-      );
-    }
-
-    // Draw flying horse (fading in during transition)
-    if (flyProgress > 0 && this.flyingSpriteLoaded) {
-      ctx.globalAlpha = flyProgress;
-
-      const flySourceX = col * this.flyingFrameWidth;
-      const flySourceY = row * this.flyingFrameHeight;
-      const flyDestWidth = this.flyingFrameWidth * this.scale;
-      const flyDestHeight = this.flyingFrameHeight * this.scale;
-
-      ctx.drawImage(
-        this.flyingSpriteSheet,
-        flySourceX, flySourceY,
-        this.flyingFrameWidth, this.flyingFrameHeight,
-        this.x, this.y,
-        flyDestWidth, flyDestHeight
-      );
-    }
-
-    ctx.restore();
-  }
-
   reset(): void {
     this.currentFrame = 0;
     this.frameTimer = 0;
@@ -232,9 +242,11 @@ export class Horse {
     this.currentDistance = 0;
     this.currentPitchHeight = 0;
     this.targetPitchHeight = 0;
+    this.jumpHeight = 0;
+    this.jumpVelocity = 0;
+    this.tumbleTime = 0;
+    this.x = this.homeX;
     // Note: flyingModeEnabled is set explicitly via setFlyingModeEnabled() before game starts
-    if (this.spriteLoaded) {
-      this.y = HORSE_CONFIG.groundY - (this.frameHeight * this.scale);
-    }
+    this.y = this.getGroundY();
   }
 }
@@ -0,0 +1,307 @@
+/**
+ * Audio input sources — Everything AudioManager can analyse.
+ *
+ * A source opens itself on the shared AudioContext and hands back the node
+ * to analyse; AudioManager never needs to know where the signal came from.
+ *
+ *   MicrophoneInputSource  — live getUserMedia stream (the normal game)
+ *   AudioFileInputSource   — decoded WAV/MP3, e.g. a recorded bug report
+ *   SyntheticInputSource   — scripted oscillator + noise, for mic-less machines
+ */
+export interface AudioInputSource {
+  /** Stable id, used as the calibration profile key */
+  readonly id: string;
+  /** Human-readable name for the UI */
+  readonly label: string;
+  /** A player performing live (a mic); files and scripts just play out */
+  readonly live: boolean;
+  /** Start producing audio on `context` and return the node to analyse */
+  open(context: AudioContext): Promise<AudioNode>;
+  /** Play again from the beginning (a new run); live input carries on */
+  restart(): void;
+  /** Stop producing audio and release any device / buffers */
+  close(): void;
+}
+
+// ---------------------------------------------------------------------------
+//  Microphone
+// ---------------------------------------------------------------------------
+
+export class MicrophoneInputSource implements AudioInputSource {
+  readonly live = true;
+  private requestedDeviceId: string;
+  private stream: MediaStream | null = null;
+  private node: MediaStreamAudioSourceNode | null = null;
+
+  /** Called when the device goes away mid-stream (e.g. headset unplugged) */
+  onDisconnect: (() => void) | null = null;
+
+  /**
+   * @param deviceId  Input device to open ('' = browser default)
+   */
+  constructor(deviceId: string = '') {
+    this.requestedDeviceId = deviceId;
+  }
+
+  get id(): string {
+    const track = this.stream?.getAudioTracks()[0];
+    return track?.getSettings().deviceId ?? 'default';
+  }
+
+  get label(): string {
+    const track = this.stream?.getAudioTracks()[0];
+    return track?.label || 'Default microphone';
+  }
+
+  /**
+   * False once the device has been unplugged (or the track stopped).
+   */
+  get isLive(): boolean {
+    const track = this.stream?.getAudioTracks()[0];
+    return track?.readyState === 'live';
+  }
+
+  /**
+   * Open the requested device, falling back to the browser default if it
+   * is no longer plugged in.
+   */
+  async open(context: AudioContext): Promise<AudioNode> {
+    try {
+      this.stream = await this.getStream(this.requestedDeviceId);
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (!this.requestedDeviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw error;
+      }
+      console.warn(`Microphone ${this.requestedDeviceId} not found, using default`);
+      this.stream = await this.getStream('');
+    }
+
+    this.stream.getAudioTracks()[0]?.addEventListener('ended', () => this.onDisconnect?.());
+
+    this.node = context.createMediaStreamSource(this.stream);
+    return this.node;
+  }
+
+  private getStream(deviceId: string): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+  }
+
+  restart(): void {
+    // Nothing to rewind
+  }
+
+  close(): void {
+    this.onDisconnect = null;
+    this.node?.disconnect();
+    this.node = null;
+
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Audio file
+// ---------------------------------------------------------------------------
+
+export class AudioFileInputSource implements AudioInputSource {
+  readonly live = false;
+  private file: File;
+  private loop: boolean;
+  private buffer: AudioBuffer | null = null;
+  private node: AudioBufferSourceNode | null = null;   // One playback (can't be restarted)
+  private output: GainNode | null = null;              // Stays connected across playbacks
+
+  constructor(file: File, loop: boolean = false) {
+    this.file = file;
+    this.loop = loop;
+  }
+
+  get id(): string {
+    return `file:${this.file.name}`;
+  }
+
+  get label(): string {
+    return `🎵 ${this.file.name}`;
+  }
+
+  async open(context: AudioContext): Promise<AudioNode> {
+    this.buffer = await context.decodeAudioData(await this.file.arrayBuffer());
+    this.output = context.createGain();
+    this.restart();
+    return this.output;
+  }
+
+  /**
+   * Play the file from the start (a buffer source plays only once, so each
+   * playback gets a new one)
+   */
+  restart(): void {
+    if (!this.buffer || !this.output) return;
+    this.stopPlayback();
+
+    this.node = this.output.context.createBufferSource();
+    this.node.buffer = this.buffer;
+    this.node.loop = this.loop;
+    this.node.connect(this.output);
+    this.node.start();
+  }
+
+  private stopPlayback(): void {
+    if (this.node) {
+      this.node.stop();
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  close(): void {
+    this.stopPlayback();
+    this.output?.disconnect();
+    this.output = null;
+    this.buffer = null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Synthetic generator
+// ---------------------------------------------------------------------------
+
+/**
+ * One step of a synthetic "voice" script.
+ */
+export interface SyntheticSegment {
+  duration: number;   // Seconds
+  frequency: number;  // Hz of the voiced tone (glides from the previous segment)
+  level: number;      // 0–1 tone amplitude
+  noise: number;      // 0–1 white-noise amplitude (breath / room)
+}
+
+/**
+ * Default demo: a steady scream that rises and falls in pitch, so the
+ * Pegasus has something to follow. No gaps, so the run never ends by itself.
+ */
+export const SYNTHETIC_DEMO_SCRIPT: SyntheticSegment[] = [
+  { duration: 4, frequency: 220, level: 0.6, noise: 0.02 },
+  { duration: 3, frequency: 330, level: 0.8, noise: 0.02 },
+  { duration: 3, frequency: 440, level: 0.9, noise: 0.02 },
+  { duration: 3, frequency: 262, level: 0.7, noise: 0.02 },
+];
+
+export class SyntheticInputSource implements AudioInputSource {
+  readonly id = 'synthetic';
+  readonly label = '🤖 Demo voice';
+  readonly live = false;
+
+  private script: SyntheticSegment[];
+  private oscillator: OscillatorNode | null = null;
+  private noise: AudioBufferSourceNode | null = null;
+  private output: GainNode | null = null;
+  private toneGain: GainNode | null = null;
+  private noiseGain: GainNode | null = null;
+  private scheduleTimer: number | null = null;
+
+  constructor(script: SyntheticSegment[] = SYNTHETIC_DEMO_SCRIPT) {
+    this.script = script;
+  }
+
+  async open(context: AudioContext): Promise<AudioNode> {
+    this.output = context.createGain();
+
+    // Voiced part: sawtooth has harmonics like a real voice
+    this.toneGain = context.createGain();
+    this.toneGain.gain.value = 0;
+    this.oscillator = context.createOscillator();
+    this.oscillator.type = 'sawtooth';
+    this.oscillator.connect(this.toneGain).connect(this.output);
+
+    // Unvoiced part: looping white noise
+    this.noiseGain = context.createGain();
+    this.noiseGain.gain.value = 0;
+    const noiseBuffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const channel = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] = Math.random() * 2 - 1;
+    }
+    this.noise = context.createBufferSource();
+    this.noise.buffer = noiseBuffer;
+    this.noise.loop = true;
+    this.noise.connect(this.noiseGain).connect(this.output);
+
+    const startTime = context.currentTime;
+    this.oscillator.start(startTime);
+    this.noise.start(startTime);
+    this.schedule(startTime, this.toneGain, this.noiseGain);
+
+    return this.output;
+  }
+
+  /**
+   * Start the script again from the top (silent, then ramping in)
+   */
+  restart(): void {
+    if (!this.oscillator || !this.toneGain || !this.noiseGain) return;
+    this.clearSchedule();
+
+    const now = this.toneGain.context.currentTime;
+    for (const param of [this.oscillator.frequency, this.toneGain.gain, this.noiseGain.gain]) {
+      param.cancelScheduledValues(now);
+    }
+    this.oscillator.frequency.setValueAtTime(this.oscillator.frequency.value, now);
+    this.toneGain.gain.setValueAtTime(0, now);
+    this.noiseGain.gain.setValueAtTime(0, now);
+    this.schedule(now, this.toneGain, this.noiseGain);
+  }
+
+  /**
+   * Schedule one pass of the script from `startTime`, then queue the next
+   * pass shortly before this one ends.
+   */
+  private schedule(startTime: number, toneGain: GainNode, noiseGain: GainNode): void {
+    if (!this.oscillator) return;
+
+    let time = startTime;
+    for (const segment of this.script) {
+      time += segment.duration;
+      this.oscillator.frequency.linearRampToValueAtTime(segment.frequency, time);
+      toneGain.gain.linearRampToValueAtTime(segment.level, time);
+      noiseGain.gain.linearRampToValueAtTime(segment.noise, time);
+    }
+
+    if (time === startTime) return;  // Empty script — nothing to repeat
+
+    const context = toneGain.context;
+    const msUntilNextPass = (time - context.currentTime - 0.5) * 1000;
+    this.scheduleTimer = window.setTimeout(
+      () => this.schedule(time, toneGain, noiseGain),
+      Math.max(0, msUntilNextPass)
+    );
+  }
+
+  private clearSchedule(): void {
+    if (this.scheduleTimer !== null) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  close(): void {
+    this.clearSchedule();
+    this.oscillator?.stop();
+    this.oscillator = null;
+    this.noise?.stop();
+    this.noise = null;
+    this.output?.disconnect();
+    this.output = null;
+    this.toneGain = null;
+    this.noiseGain = null;
+  }
+}
@@ -0,0 +1,136 @@
+import { GAME_CONFIG, NOISE_CONFIG, SIMULATION_CONFIG } from './constants';
+import { Simulation } from './simulation';
+import { NoiseGate } from './noise';
+import { quantiseInput } from './replay';
+import type { AudioManager } from './audio';
+import type { SimulationOptions } from './simulation';
+import type { FeatureFrame, InputSample, LaneReadiness, SimulationSnapshot, VoiceAnalysis } from './types';
+
+/**
+ * RaceLane - One player's audio input driving one Simulation
+ *
+ * Drains the feature frames its AudioManager produced, runs them through the
+ * noise gate and voice classifier, and steps the simulation in fixed
+ * timesteps of audio time. A normal run has one lane; a head-to-head race
+ * has one per microphone.
+ *
+ * Before the start (see StartCountdown) the lane only listens: the same
+ * input is measured but the simulation doesn't move.
+ */
+export class RaceLane {
+  readonly audioManager: AudioManager;
+  private simulation: Simulation | null = null;
+  private stepAccumulator: number = 0;  // Audio seconds not yet simulated
+  private noiseGate = new NoiseGate(GAME_CONFIG.volumeThreshold, NOISE_CONFIG.gateCloseLevel);
+  private heardSignal: boolean = false;  // Any non-silent frame since begin()
+
+  constructor(audioManager: AudioManager) {
+    this.audioManager = audioManager;
+  }
+
+  /**
+   * Start a fresh run, discarding any audio heard before it (a file or
+   * scripted input starts over)
+   */
+  begin(options: SimulationOptions): void {
+    this.simulation = new Simulation(options);
+    this.audioManager.restartInput();
+    this.stepAccumulator = 0;
+    this.heardSignal = false;
+    this.noiseGate.reset();
+    this.audioManager.drainFeatures();
+    this.audioManager.resetVoiceAnalysis();
+  }
+
+  /**
+   * Feed the audio that arrived since the last update into the simulation.
+   * `onStep` sees each step's input and resulting snapshot. Stops once the
+   * run is over.
+   */
+  update(deltaTime: number, onStep?: (snapshot: SimulationSnapshot, input: InputSample) => void): void {
+    const simulation = this.simulation;
+    if (!simulation || simulation.isGameOver) return;
+
+    // Consume every feature frame the audio worklet produced since the last
+    // update. Each frame covers a fixed slice of audio, so a quick dropout
+    // is counted exactly once whatever the frame rate.
+    const frames = this.audioManager.drainFeatures();
+
+    // Anti-cheat: only a real voice counts, not claps, taps, blowing or music
+    const voice = this.audioManager.analyseVoice(frames, deltaTime / 1000);
+
+    for (const frame of frames) {
+      const input = this.toInputSample(frame, voice);
+
+      // Step the simulation for as much audio time as this frame covers
+      this.stepAccumulator += frame.duration;
+      while (this.stepAccumulator >= SIMULATION_CONFIG.timestep) {
+        this.stepAccumulator -= SIMULATION_CONFIG.timestep;
+        const snapshot = simulation.step(input);
+        onStep?.(snapshot, input);
+
+        if (simulation.isGameOver) return;
+      }
+    }
+  }
+
+  /**
+   * Measure the audio that arrived since the last call without running the
+   * simulation (the pre-run countdown)
+   */
+  listen(deltaTime: number): LaneReadiness {
+    const frames = this.audioManager.drainFeatures();
+    const voice = this.audioManager.analyseVoice(frames, deltaTime / 1000);
+
+    let level = 0;
+    let screaming = false;
+    for (const frame of frames) {
+      const input = this.toInputSample(frame, voice);
+      level = Math.max(level, input.volumeLevel);
+      screaming ||= input.isScreaming;
+      this.heardSignal ||= frame.rms > 0;
+    }
+
+    return { hasSignal: this.heardSignal, level, screaming, live: this.audioManager.isLiveInput };
+  }
+
+  /**
+   * Throw away audio heard while the game wasn't looking (paused, swapping mics)
+   */
+  skipInput(): void {
+    this.audioManager.drainFeatures();
+    this.simulation?.clearSilence();
+  }
+
+  getSimulation(): Simulation | null {
+    return this.simulation;
+  }
+
+  get isOver(): boolean {
+    return this.simulation?.isGameOver ?? false;
+  }
+
+  /**
+   * Turn one audio feature frame into simulation input
+   */
+  private toInputSample(frame: FeatureFrame, voice: VoiceAnalysis): InputSample {
+    const volumeLevel = this.audioManager.normaliseVolume(frame.rms);
+
+    // Noise gate (with hysteresis) decides whether this frame is loud enough,
+    // the voice classifier whether it is actually a voice
+    const gateOpen = this.noiseGate.update(volumeLevel);
+
+    // Nobody making noise — let the noise floor follow the room
+    if (!gateOpen) {
+      this.audioManager.updateNoiseFloor(frame.rms, frame.duration);
+    }
+
+    // Rounded to what a replay stores, so replays reproduce the run exactly
+    return quantiseInput({
+      volumeLevel,
+      isScreaming: gateOpen && voice.isVoiced,
+      inputIgnored: gateOpen && !voice.isVoiced,
+      pitch: frame.pitch,
+    });
+  }
+}
@@ -19,12 +19,10 @@ document.addEventListener('DOMContentLoaded', () => {
   const game = new Game(canvas);
   game.initialize();
 
-  // Handle page visibility changes (pause when tab is hidden)
+  // Pause when the tab is hidden; the pause menu waits for the player to come back
   document.addEventListener('visibilitychange', () => {
     if (document.hidden) {
-      game.pause();
-    } else {
-      game.resume();
+      game.openPauseMenu();
     }
   });
 
@@ -0,0 +1,248 @@
+import { CANVAS_DIMENSIONS, MELODY_CONFIG } from './constants';
+import { pitchToRangePosition, toSemitones } from './vocal-range';
+import type { MelodyNoteStatus, MelodyNoteView, MelodyResult, Song, SongNote, VocalRange } from './types';
+
+/**
+ * Sing-the-melody mode — The song's notes scroll in from the right and the
+ * player holds each one so the Pegasus flies through it. The song is
+ * transposed into the player's vocal range, so every note sits at the
+ * height that pitch flies to.
+ */
+
+// ---------------------------------------------------------------------------
+//  Note lists
+// ---------------------------------------------------------------------------
+
+const NOTE_NAMES: Record<string, number> = { C: -9, D: -7, E: -5, F: -4, G: -2, A: 0, B: 2 };
+
+/**
+ * Parse a note list such as "C4:0.5 E4:1 | G#3:2" (note name with octave,
+ * then length in beats; bar lines are ignored). Throws on a bad note.
+ */
+export function parseNoteList(text: string): SongNote[] {
+  const notes: SongNote[] = [];
+
+  for (const token of text.split(/\s+/)) {
+    if (token === '' || token === '|') continue;
+
+    const match = /^([A-G])([#b]?)(\d):(\d*\.?\d+)$/.exec(token);
+    if (!match) {
+      throw new Error(`Bad note "${token}"`);
+    }
+    const [, name, accidental, octave, beats] = match;
+    const shift = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+    notes.push({
+      semitones: NOTE_NAMES[name] + shift + (Number(octave) - 4) * 12,
+      beats: Number(beats),
+    });
+  }
+
+  return notes;
+}
+
+// ---------------------------------------------------------------------------
+//  Scoring
+// ---------------------------------------------------------------------------
+
+interface TrackedNote {
+  start: number;          // Song seconds
+  end: number;
+  semitones: number;      // Target pitch after transposing into the player's range
+  position: number;       // 0–1 height in the player's range
+  onTime: number;         // Seconds sung on pitch
+  onset: number | null;   // Seconds after the start the player first hit the pitch
+  status: MelodyNoteStatus;
+}
+
+/**
+ * MelodyTracker — Song clock and scoring for one run.
+ *
+ * Every note scores its share sung on pitch, plus a bonus for hitting the
+ * pitch promptly, times a multiplier that grows with the streak of notes hit.
+ */
+export class MelodyTracker {
+  private song: Song;
+  private notes: TrackedNote[];
+  private time: number = -MELODY_CONFIG.leadIn;
+  private started: boolean = false;
+  private onPitch: boolean = false;
+  private streak: number = 0;
+  private bestStreak: number = 0;
+  private score: number = 0;
+
+  constructor(song: Song, range: VocalRange) {
+    this.song = song;
+
+    // Centre the song on the middle of the player's range
+    const songLow = Math.min(...song.notes.map(n => n.semitones));
+    const songHigh = Math.max(...song.notes.map(n => n.semitones));
+    const rangeMiddle = (toSemitones(range.low) + toSemitones(range.high)) / 2;
+    const transpose = Math.round(rangeMiddle - (songLow + songHigh) / 2);
+
+    const secondsPerBeat = 60 / song.bpm;
+    let start = 0;
+    this.notes = song.notes.map(note => {
+      const semitones = note.semitones + transpose;
+      const tracked: TrackedNote = {
+        start,
+        end: start + note.beats * secondsPerBeat,
+        semitones,
+        position: pitchToRangePosition(440 * Math.pow(2, semitones / 12), range),
+        onTime: 0,
+        onset: null,
+        status: 'upcoming',
+      };
+      start = tracked.end;
+      return tracked;
+    });
+  }
+
+  /**
+   * Start the song clock (on the player's first scream)
+   */
+  start(): void {
+    this.started = true;
+  }
+
+  get isStarted(): boolean {
+    return this.started;
+  }
+
+  get isComplete(): boolean {
+    return this.notes.every(note => note.status === 'hit' || note.status === 'missed');
+  }
+
+  /**
+   * Advance the song by `duration` seconds. `frequency` is the pitch being
+   * sung (0 = not singing).
+   */
+  update(duration: number, frequency: number): void {
+    if (!this.started) return;
+    this.time += duration;
+
+    const sung = frequency > 0 ? toSemitones(frequency) : null;
+    this.onPitch = false;
+
+    for (const note of this.notes) {
+      if (note.status === 'hit' || note.status === 'missed') continue;
+      if (this.time < note.start) break;
+
+      if (this.time >= note.end) {
+        this.judge(note);
+        continue;
+      }
+
+      note.status = 'active';
+      if (sung !== null && Math.abs(sung - note.semitones) <= MELODY_CONFIG.pitchTolerance) {
+        note.onTime += duration;
+        if (note.onset === null) note.onset = this.time - note.start;
+        this.onPitch = true;
+      }
+    }
+  }
+
+  getResult(): MelodyResult {
+    const judged = this.notes.filter(n => n.status === 'hit' || n.status === 'missed');
+    const accuracy = judged.length > 0
+      ? judged.reduce((sum, n) => sum + this.noteShare(n), 0) / judged.length
+      : 0;
+
+    return {
+      title: this.song.title,
+      notesHit: judged.filter(n => n.status === 'hit').length,
+      notesJudged: judged.length,
+      notesTotal: this.notes.length,
+      accuracy,
+      streak: this.streak,
+      bestStreak: this.bestStreak,
+      score: this.score,
+      complete: this.isComplete,
+    };
+  }
+
+  /**
+   * On-screen notes. `gateX` is where a note's start meets the horse;
+   * `centreY` gives the screen height a range position flies to.
+   */
+  getNoteViews(gateX: number, centreY: (position: number) => number): MelodyNoteView[] {
+    const views: MelodyNoteView[] = [];
+
+    for (const note of this.notes) {
+      const x = gateX + (note.start - this.time) * MELODY_CONFIG.scrollSpeed;
+      const width = (note.end - note.start) * MELODY_CONFIG.scrollSpeed - 4;
+      if (x > CANVAS_DIMENSIONS.width + 50) break;
+      if (x + width < -50) continue;
+
+      views.push({
+        x,
+        y: centreY(note.position) - MELODY_CONFIG.noteHeight / 2,
+        width,
+        height: MELODY_CONFIG.noteHeight,
+        status: note.status,
+        onPitch: note.status === 'active' && this.onPitch,
+      });
+    }
+
+    return views;
+  }
+
+  private judge(note: TrackedNote): void {
+    const share = this.noteShare(note);
+    if (share < MELODY_CONFIG.hitShare) {
+      note.status = 'missed';
+      this.streak = 0;
+      return;
+    }
+
+    note.status = 'hit';
+    this.streak++;
+    this.bestStreak = Math.max(this.bestStreak, this.streak);
+
+    const timing = note.onset === null ? 0
+      : note.onset <= MELODY_CONFIG.perfectOnset ? MELODY_CONFIG.perfectBonus
+      : note.onset <= MELODY_CONFIG.goodOnset ? MELODY_CONFIG.goodBonus
+      : 0;
+    const multiplier = Math.min(MELODY_CONFIG.maxMultiplier, 1 + (this.streak - 1) * MELODY_CONFIG.streakBonus);
+    this.score += Math.round((share * MELODY_CONFIG.notePoints + timing) * multiplier);
+  }
+
+  private noteShare(note: TrackedNote): number {
+    return Math.min(1, note.onTime / (note.end - note.start));
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Drawing
+// ---------------------------------------------------------------------------
+
+const NOTE_COLORS: Record<MelodyNoteStatus, string> = {
+  upcoming: '#FFD700',
+  active: '#FFB703',
+  hit: '#4CAF50',
+  missed: '#6B7280',
+};
+
+/**
+ * Draw the song's notes as rounded bars
+ */
+export function drawMelodyNotes(ctx: CanvasRenderingContext2D, notes: MelodyNoteView[]): void {
+  ctx.save();
+  for (const note of notes) {
+    const radius = note.height / 2;
+
+    ctx.globalAlpha = note.status === 'missed' ? 0.5 : 0.85;
+    ctx.fillStyle = NOTE_COLORS[note.status];
+    ctx.shadowColor = note.onPitch ? '#FFFFFF' : 'transparent';
+    ctx.shadowBlur = note.onPitch ? 20 : 0;
+
+    ctx.beginPath();
+    ctx.roundRect(note.x, note.y, Math.max(note.width, note.height), note.height, radius);
+    ctx.fill();
+
+    ctx.shadowBlur = 0;
+    ctx.strokeStyle = '#9B1B1B';
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  }
+  ctx.restore();
+}
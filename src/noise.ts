@@ -0,0 +1,74 @@
+import { NOISE_CONFIG } from './constants';
+
+/**
+ * Noise handling for loud rooms (office parties, hallways...).
+ *
+ *   NoiseFloorTracker — follows the ambient raw RMS while nobody is screaming,
+ *                       so volume can be measured relative to the room.
+ *   NoiseGate         — turns a 0–1 level into screaming / not screaming with
+ *                       separate open and close levels, so a voice hovering
+ *                       around the threshold doesn't flicker on and off.
+ */
+
+export class NoiseFloorTracker {
+  private ambient: number;
+
+  constructor(initialAmbient: number) {
+    this.ambient = initialAmbient;
+  }
+
+  /** Estimated raw RMS of the room with nobody screaming */
+  get level(): number {
+    return this.ambient;
+  }
+
+  /**
+   * Feed one frame of room noise (only call while the gate is closed).
+   * Falls quickly when the room gets quieter and rises slowly when it gets
+   * louder, so a single shout nearby doesn't lock quiet players out.
+   */
+  update(raw: number, duration: number, ceiling: number): void {
+    const timeConstant = raw < this.ambient ? NOISE_CONFIG.floorFallTime : NOISE_CONFIG.floorRiseTime;
+    const alpha = 1 - Math.exp(-duration / timeConstant);
+    this.ambient += (raw - this.ambient) * alpha;
+
+    // Never let the floor climb so high that nobody can get above it
+    const maxAmbient = (ceiling * NOISE_CONFIG.maxFloorRatio) / NOISE_CONFIG.floorHeadroom;
+    this.ambient = Math.min(this.ambient, maxAmbient);
+  }
+
+  reset(initialAmbient: number): void {
+    this.ambient = initialAmbient;
+  }
+}
+
+export class NoiseGate {
+  private openLevel: number;
+  private closeLevel: number;
+  private _isOpen: boolean = false;
+
+  constructor(openLevel: number, closeLevel: number) {
+    this.openLevel = openLevel;
+    this.closeLevel = Math.min(closeLevel, openLevel);
+  }
+
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+
+  /**
+   * Feed one normalised level; returns whether the gate is open afterwards.
+   */
+  update(level: number): boolean {
+    if (this._isOpen) {
+      if (level < this.closeLevel) this._isOpen = false;
+    } else if (level > this.openLevel) {
+      this._isOpen = true;
+    }
+    return this._isOpen;
+  }
+
+  reset(): void {
+    this._isOpen = false;
+  }
+}
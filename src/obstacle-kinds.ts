@@ -0,0 +1,329 @@
+import type { Obstacle } from './obstacle';
+import type { HitRect } from './types';
+
+/**
+ * Obstacle registry — Every kind of obstacle the course can throw at the
+ * horse: its size, where it spawns, how it moves, what it collides with and
+ * how it's drawn.
+ * ObstacleManager only reads this table, so a new kind is one entry here.
+ */
+
+/**
+ * How an obstacle moves on top of scrolling with the ground
+ */
+export interface ObstacleMovement {
+  drift?: number;      // Extra speed towards the horse (px/s)
+  bobHeight?: number;  // Up-and-down sway (px either side)
+  bobRate?: number;    // Sways per second
+}
+
+export interface ObstacleKind {
+  label: string;                          // Name in the course editor
+  width: number;
+  height: number;
+  weight: number;                         // Relative spawn chance
+  altitude: { min: number; max: number }; // Bottom edge, px above the street (0 = standing on it)
+  jumpable: boolean;                      // Low enough for the ground course
+  movement?: ObstacleMovement;
+  hitbox: HitRect[];                      // Collision shape in 0–1 units of width × height
+  draw: (ctx: CanvasRenderingContext2D, obstacle: Obstacle) => void;
+}
+
+// ---------------------------------------------------------------------------
+//  Kinds
+// ---------------------------------------------------------------------------
+
+export const OBSTACLE_KINDS = {
+  rock: {
+    label: '🪨 Rock',
+    width: 60, height: 50, weight: 1,
+    altitude: { min: 0, max: 0 },
+    jumpable: false,
+    hitbox: [
+      { x: 0.35, y: 0, width: 0.3, height: 0.3 },
+      { x: 0.05, y: 0.3, width: 0.9, height: 0.4 },
+      { x: 0.2, y: 0.7, width: 0.6, height: 0.3 },
+    ],
+    draw: drawRock,
+  },
+  fence: {
+    label: '🚧 Fence',
+    width: 40, height: 70, weight: 1,
+    altitude: { min: 0, max: 0 },
+    jumpable: true,
+    hitbox: [{ x: 0, y: 0, width: 1, height: 1 }],
+    draw: drawFence,
+  },
+  barrel: {
+    label: '🛢️ Barrel',
+    width: 50, height: 55, weight: 1,
+    altitude: { min: 0, max: 0 },
+    jumpable: true,
+    hitbox: [
+      { x: 0.15, y: 0, width: 0.7, height: 1 },
+      { x: 0, y: 0.2, width: 1, height: 0.6 },
+    ],
+    draw: drawBarrel,
+  },
+  kite: {
+    label: '🪁 Kite',
+    width: 56, height: 64, weight: 0.8,
+    altitude: { min: 260, max: 440 },
+    jumpable: false,
+    movement: { bobHeight: 25, bobRate: 0.5 },
+    hitbox: [
+      { x: 0.3, y: 0.05, width: 0.4, height: 0.65 },
+      { x: 0.1, y: 0.25, width: 0.8, height: 0.3 },
+    ],
+    draw: drawKite,
+  },
+  bird: {
+    label: '🐦 Bird',
+    width: 48, height: 30, weight: 0.8,
+    altitude: { min: 150, max: 420 },
+    jumpable: false,
+    movement: { drift: 120, bobHeight: 12, bobRate: 1.5 },
+    hitbox: [{ x: 0.05, y: 0.2, width: 0.9, height: 0.6 }],
+    draw: drawBird,
+  },
+  hangingLantern: {
+    label: '🏮 Hanging lantern',
+    width: 44, height: 60, weight: 0.6,
+    altitude: { min: 300, max: 420 },
+    jumpable: false,
+    movement: { bobHeight: 6, bobRate: 0.3 },
+    hitbox: [{ x: 0.1, y: 0.1, width: 0.8, height: 0.8 }],
+    draw: drawHangingLantern,
+  },
+  dragonHead: {
+    label: '🐉 Dragon head',
+    width: 90, height: 70, weight: 0.4,
+    altitude: { min: 120, max: 300 },
+    jumpable: false,
+    movement: { bobHeight: 40, bobRate: 0.4 },
+    hitbox: [
+      { x: 0, y: 0.3, width: 0.3, height: 0.4 },
+      { x: 0.2, y: 0.05, width: 0.8, height: 0.9 },
+    ],
+    draw: drawDragonHead,
+  },
+} satisfies Record<string, ObstacleKind>;
+
+export type ObstacleType = keyof typeof OBSTACLE_KINDS;
+
+/**
+ * Look up an obstacle kind (typed as the general shape)
+ */
+export function getObstacleKind(type: ObstacleType): ObstacleKind {
+  return OBSTACLE_KINDS[type];
+}
+
+// ---------------------------------------------------------------------------
+//  Drawing
+// ---------------------------------------------------------------------------
+
+/**
+ * Draw a rock obstacle
+ */
+function drawRock(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  ctx.fillStyle = '#6B7280';
+  ctx.beginPath();
+  ctx.moveTo(obs.x + obs.width * 0.5, obs.y);
+  ctx.lineTo(obs.x + obs.width, obs.y + obs.height * 0.7);
+  ctx.lineTo(obs.x + obs.width * 0.8, obs.y + obs.height);
+  ctx.lineTo(obs.x + obs.width * 0.2, obs.y + obs.height);
+  ctx.lineTo(obs.x, obs.y + obs.height * 0.6);
+  ctx.closePath();
+  ctx.fill();
+
+  // Highlight
+  ctx.fillStyle = '#9CA3AF';
+  ctx.beginPath();
+  ctx.moveTo(obs.x + obs.width * 0.5, obs.y + 5);
+  ctx.lineTo(obs.x + obs.width * 0.7, obs.y + obs.height * 0.4);
+  ctx.lineTo(obs.x + obs.width * 0.4, obs.y + obs.height * 0.5);
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Draw a fence obstacle
+ */
+function drawFence(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  ctx.fillStyle = '#8B4513';
+
+  // Fence posts
+  const postWidth = 8;
+  ctx.fillRect(obs.x, obs.y, postWidth, obs.height);
+  ctx.fillRect(obs.x + obs.width - postWidth, obs.y, postWidth, obs.height);
+
+  // Horizontal bars
+  ctx.fillRect(obs.x, obs.y + 10, obs.width, 8);
+  ctx.fillRect(obs.x, obs.y + obs.height * 0.5, obs.width, 8);
+  ctx.fillRect(obs.x, obs.y + obs.height - 18, obs.width, 8);
+}
+
+/**
+ * Draw a barrel obstacle
+ */
+function drawBarrel(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  ctx.fillStyle = '#D97706';
+
+  // Main barrel body
+  ctx.beginPath();
+  ctx.ellipse(
+    obs.x + obs.width / 2,
+    obs.y + obs.height / 2,
+    obs.width / 2,
+    obs.height / 2,
+    0, 0, Math.PI * 2
+  );
+  ctx.fill();
+
+  // Metal bands
+  ctx.strokeStyle = '#374151';
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.moveTo(obs.x + 5, obs.y + obs.height * 0.25);
+  ctx.lineTo(obs.x + obs.width - 5, obs.y + obs.height * 0.25);
+  ctx.moveTo(obs.x + 5, obs.y + obs.height * 0.75);
+  ctx.lineTo(obs.x + obs.width - 5, obs.y + obs.height * 0.75);
+  ctx.stroke();
+}
+
+/**
+ * Draw a diamond kite trailing its tail
+ */
+function drawKite(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  const centerX = obs.x + obs.width / 2;
+  const bodyHeight = obs.height * 0.75;
+
+  ctx.fillStyle = '#E63946';
+  ctx.beginPath();
+  ctx.moveTo(centerX, obs.y);
+  ctx.lineTo(obs.x + obs.width, obs.y + bodyHeight * 0.4);
+  ctx.lineTo(centerX, obs.y + bodyHeight);
+  ctx.lineTo(obs.x, obs.y + bodyHeight * 0.4);
+  ctx.closePath();
+  ctx.fill();
+
+  // Spars
+  ctx.strokeStyle = '#FFD700';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(centerX, obs.y);
+  ctx.lineTo(centerX, obs.y + bodyHeight);
+  ctx.moveTo(obs.x, obs.y + bodyHeight * 0.4);
+  ctx.lineTo(obs.x + obs.width, obs.y + bodyHeight * 0.4);
+  ctx.stroke();
+
+  // Tail flutters with the kite's age
+  ctx.strokeStyle = '#FFB703';
+  ctx.beginPath();
+  ctx.moveTo(centerX, obs.y + bodyHeight);
+  const flutter = Math.sin(obs.age * 8) * 6;
+  ctx.quadraticCurveTo(centerX + flutter, obs.y + bodyHeight + 8, centerX - flutter, obs.y + obs.height);
+  ctx.stroke();
+}
+
+/**
+ * Draw a bird flapping towards the horse
+ */
+function drawBird(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  const centerX = obs.x + obs.width / 2;
+  const centerY = obs.y + obs.height / 2;
+  const wing = Math.sin(obs.age * 14) * obs.height * 0.45;
+
+  // Wings
+  ctx.strokeStyle = '#1F2937';
+  ctx.lineWidth = 4;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(obs.x, centerY - wing);
+  ctx.quadraticCurveTo(centerX - obs.width * 0.2, centerY - wing * 0.3, centerX, centerY);
+  ctx.quadraticCurveTo(centerX + obs.width * 0.2, centerY - wing * 0.3, obs.x + obs.width, centerY - wing);
+  ctx.stroke();
+
+  // Body and beak (facing left, into the horse)
+  ctx.fillStyle = '#374151';
+  ctx.beginPath();
+  ctx.ellipse(centerX, centerY + 2, obs.width * 0.22, obs.height * 0.2, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#FFB703';
+  ctx.beginPath();
+  ctx.moveTo(centerX - obs.width * 0.22, centerY);
+  ctx.lineTo(centerX - obs.width * 0.34, centerY + 3);
+  ctx.lineTo(centerX - obs.width * 0.22, centerY + 5);
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Draw a lantern hanging on a cord from the top of the screen
+ */
+function drawHangingLantern(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  const centerX = obs.x + obs.width / 2;
+  const capHeight = 6;
+
+  // Cord
+  ctx.strokeStyle = '#3D2817';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(centerX, 0);
+  ctx.lineTo(centerX, obs.y);
+  ctx.stroke();
+
+  // Body
+  ctx.shadowColor = '#FFB703';
+  ctx.shadowBlur = 12;
+  ctx.fillStyle = '#D62828';
+  ctx.beginPath();
+  ctx.ellipse(centerX, obs.y + obs.height / 2, obs.width / 2, obs.height / 2 - capHeight, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.shadowBlur = 0;
+
+  // Gold caps
+  ctx.fillStyle = '#FFD700';
+  ctx.fillRect(centerX - obs.width * 0.25, obs.y, obs.width * 0.5, capHeight);
+  ctx.fillRect(centerX - obs.width * 0.25, obs.y + obs.height - capHeight, obs.width * 0.5, capHeight);
+}
+
+/**
+ * Draw a parade dragon head, jaws towards the horse
+ */
+function drawDragonHead(ctx: CanvasRenderingContext2D, obs: Obstacle): void {
+  const jaw = (Math.sin(obs.age * 3) + 1) * 0.06;
+
+  // Head
+  ctx.fillStyle = '#D62828';
+  ctx.beginPath();
+  ctx.moveTo(obs.x, obs.y + obs.height * (0.35 - jaw));
+  ctx.quadraticCurveTo(obs.x + obs.width * 0.4, obs.y, obs.x + obs.width, obs.y + obs.height * 0.2);
+  ctx.lineTo(obs.x + obs.width, obs.y + obs.height * 0.8);
+  ctx.quadraticCurveTo(obs.x + obs.width * 0.4, obs.y + obs.height, obs.x, obs.y + obs.height * (0.65 + jaw));
+  ctx.lineTo(obs.x + obs.width * 0.2, obs.y + obs.height * 0.5);
+  ctx.closePath();
+  ctx.fill();
+
+  // Gold mane along the back of the head
+  ctx.fillStyle = '#FFD700';
+  for (let i = 0; i < 4; i++) {
+    const y = obs.y + obs.height * (0.15 + i * 0.2);
+    ctx.beginPath();
+    ctx.moveTo(obs.x + obs.width, y);
+    ctx.lineTo(obs.x + obs.width + 10, y + obs.height * 0.08);
+    ctx.lineTo(obs.x + obs.width, y + obs.height * 0.16);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  // Eye
+  ctx.fillStyle = '#FFFFFF';
+  ctx.beginPath();
+  ctx.arc(obs.x + obs.width * 0.45, obs.y + obs.height * 0.3, obs.height * 0.09, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#1F2937';
+  ctx.beginPath();
+  ctx.arc(obs.x + obs.width * 0.43, obs.y + obs.height * 0.3, obs.height * 0.045, 0, Math.PI * 2);
+  ctx.fill();
+}
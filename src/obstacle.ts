@@ -1,9 +1,10 @@
-import { CANVAS_DIMENSIONS } from './constants';
+import { CANVAS_DIMENSIONS, DEFAULT_DIFFICULTY, HORSE_CONFIG, UI_CONFIG } from './constants';
+import { DifficultyCurve } from './difficulty';
+import { placeShape, shapesOverlap } from './hitbox';
+import { getObstacleKind, OBSTACLE_KINDS, type ObstacleType } from './obstacle-kinds';
+import type { Course, CourseObstacle, HitRect } from './types';
 
-/**
- * Obstacle types
- */
-export type ObstacleType = 'rock' | 'fence' | 'barrel';
+export type { ObstacleType } from './obstacle-kinds';
 
 /**
  * Single obstacle instance
@@ -14,31 +15,93 @@ export interface Obstacle {
   width: number;
   height: number;
   type: ObstacleType;
+  baseY: number;   // Spawn height the obstacle sways around
+  age: number;     // Seconds since it spawned (drives movement and animation)
 }
 
 /**
- * Obstacle configuration
+ * Obstacle configuration (the kinds themselves live in OBSTACLE_KINDS,
+ * spacing and mix in DIFFICULTY_PRESETS)
  */
 const OBSTACLE_CONFIG = {
-  minSpawnInterval: 800,   // Minimum distance between obstacles (in meters)
-  maxSpawnInterval: 2000,  // Maximum distance between obstacles
-  types: {
-    rock: { width: 60, height: 50, color: '#6B7280' },
-    fence: { width: 40, height: 70, color: '#8B4513' },
-    barrel: { width: 50, height: 55, color: '#D97706' },
-  },
+  flyingStartDistance: 5000,  // Flying mode: obstacles once the horse can fly over them
+  groundStartDistance: 1000,  // Ground mode: obstacles the horse jumps
   groundY: CANVAS_DIMENSIONS.height - 55,  // Ground level for obstacles
+  spawnX: CANVAS_DIMENSIONS.width + 50,    // Spawn just off-screen right
+  courseLineX: 50 + HORSE_CONFIG.frameWidth,  // The horse's nose, where a course obstacle's distance is measured
 };
 
 /**
- * ObstacleManager - Handles spawning, updating, and drawing obstacles
+ * Build an obstacle of `type` with its left edge at `x` and its bottom
+ * `altitude` px above the street
+ */
+export function createObstacle(type: ObstacleType, x: number, altitude: number): Obstacle {
+  const kind = getObstacleKind(type);
+  const y = OBSTACLE_CONFIG.groundY - altitude - kind.height;
+  return { x, y, width: kind.width, height: kind.height, type, baseY: y, age: 0 };
+}
+
+/**
+ * Screen x of a course obstacle `courseDistance` metres along, with the
+ * horse at `distance`
+ */
+export function courseObstacleX(courseDistance: number, distance: number): number {
+  return OBSTACLE_CONFIG.courseLineX + (courseDistance - distance) * UI_CONFIG.groundScale;
+}
+
+/**
+ * Course distance shown at screen `x` with the horse at `distance`, and
+ * the altitude whose obstacle bottom sits at screen `y`
+ */
+export function courseAt(x: number, y: number, distance: number): { distance: number; altitude: number } {
+  return {
+    distance: distance + (x - OBSTACLE_CONFIG.courseLineX) / UI_CONFIG.groundScale,
+    altitude: OBSTACLE_CONFIG.groundY - y,
+  };
+}
+
+/**
+ * ObstacleManager - Handles spawning, updating and colliding obstacles
+ * Drawing lives in drawObstacles() so the manager can run headless.
+ *
+ * Flying mode spawns every kind from 5000m, on the street and up in the
+ * sky, so the Pegasus has to change pitch to dodge; ground mode spawns only
+ * jumpable kinds, starting much earlier. The difficulty curve sets how far
+ * apart they are and how often the airborne kinds turn up.
+ *
+ * Given a course, it plays that instead: every obstacle at its set distance
+ * and height, with no randomness.
  */
 export class ObstacleManager {
   private obstacles: Obstacle[] = [];
   private nextSpawnDistance: number = 0;
-  private readonly START_DISTANCE = 5000;  // Start spawning at 5000m
-  
-  constructor() {
+  private startDistance: number;
+  private types: ObstacleType[];
+  private random: () => number;
+  private difficulty: DifficultyCurve;
+  private course: CourseObstacle[] | null;
+  private courseIndex: number = 0;  // Next course obstacle to spawn
+
+  /**
+   * @param random      Source of 0–1 random numbers (inject a fixed one for repeatable runs)
+   * @param groundMode  Jumpable obstacles on the street instead of the flying course
+   * @param difficulty  Spacing and mix by distance
+   * @param course      Hand-made course to play instead of random spawns
+   */
+  constructor(
+    random: () => number = Math.random,
+    groundMode: boolean = false,
+    difficulty: DifficultyCurve = new DifficultyCurve(DEFAULT_DIFFICULTY),
+    course: Course | null = null,
+  ) {
+    this.random = random;
+    this.difficulty = difficulty;
+    this.course = course?.obstacles ?? null;
+    this.startDistance = course ? 0
+      : groundMode ? OBSTACLE_CONFIG.groundStartDistance
+      : OBSTACLE_CONFIG.flyingStartDistance;
+    this.types = (Object.keys(OBSTACLE_KINDS) as ObstacleType[])
+      .filter(type => !groundMode || getObstacleKind(type).jumpable);
     this.reset();
   }
 
@@ -47,64 +110,92 @@ export class ObstacleManager {
    */
   reset(): void {
     this.obstacles = [];
-    this.nextSpawnDistance = this.START_DISTANCE + this.getRandomSpawnInterval();
+    this.courseIndex = 0;
+    this.nextSpawnDistance = this.startDistance + this.getRandomSpawnInterval(this.startDistance);
   }
 
   /**
-   * Get random spawn interval
+   * Get random spawn interval for the difficulty at `distance`
    */
-  private getRandomSpawnInterval(): number {
-    return OBSTACLE_CONFIG.minSpawnInterval + 
-      Math.random() * (OBSTACLE_CONFIG.maxSpawnInterval - OBSTACLE_CONFIG.minSpawnInterval);
+  private getRandomSpawnInterval(distance: number): number {
+    const { minSpawnInterval, maxSpawnInterval } = this.difficulty.at(distance);
+    return minSpawnInterval + this.random() * (maxSpawnInterval - minSpawnInterval);
   }
 
   /**
-   * Get random obstacle type
+   * Weighted random obstacle type; airborne kinds get more likely as the
+   * difficulty ramps up
    */
-  private getRandomType(): ObstacleType {
-    const types: ObstacleType[] = ['rock', 'fence', 'barrel'];
-    return types[Math.floor(Math.random() * types.length)];
+  private getRandomType(distance: number): ObstacleType {
+    const { aerialWeight } = this.difficulty.at(distance);
+    const weight = (type: ObstacleType) => {
+      const kind = getObstacleKind(type);
+      return kind.altitude.max > 0 ? kind.weight * aerialWeight : kind.weight;
+    };
+
+    const total = this.types.reduce((sum, type) => sum + weight(type), 0);
+    let roll = this.random() * total;
+    for (const type of this.types) {
+      roll -= weight(type);
+      if (roll < 0) return type;
+    }
+    return this.types[this.types.length - 1];
   }
 
   /**
    * Spawn a new obstacle
    */
-  private spawnObstacle(): void {
-    const type = this.getRandomType();
-    const config = OBSTACLE_CONFIG.types[type];
-    
-    const obstacle: Obstacle = {
-      x: CANVAS_DIMENSIONS.width + 50,  // Spawn just off-screen right
-      y: OBSTACLE_CONFIG.groundY - config.height,
-      width: config.width,
-      height: config.height,
-      type: type,
-    };
-    
-    this.obstacles.push(obstacle);
+  private spawnObstacle(distance: number): void {
+    const type = this.getRandomType(distance);
+    const kind = getObstacleKind(type);
+    const altitude = kind.altitude.min + this.random() * (kind.altitude.max - kind.altitude.min);
+
+    this.obstacles.push(createObstacle(type, OBSTACLE_CONFIG.spawnX, altitude));
+  }
+
+  /**
+   * Spawn every course obstacle that has scrolled into view
+   */
+  private spawnCourseObstacles(course: CourseObstacle[], distance: number): void {
+    while (this.courseIndex < course.length) {
+      const entry = course[this.courseIndex];
+      const x = courseObstacleX(entry.distance, distance);
+      if (x > OBSTACLE_CONFIG.spawnX) break;
+
+      this.obstacles.push(createObstacle(entry.type, x, entry.altitude));
+      this.courseIndex++;
+    }
   }
 
   /**
    * Update obstacles based on game state
    */
   update(distance: number, speed: number, deltaTime: number): void {
-    // Only spawn obstacles after START_DISTANCE
-    if (distance < this.START_DISTANCE) {
+    // Only spawn obstacles after the start distance
+    if (distance < this.startDistance) {
       return;
     }
 
     // Check if we should spawn a new obstacle
-    if (distance >= this.nextSpawnDistance) {
-      this.spawnObstacle();
-      this.nextSpawnDistance = distance + this.getRandomSpawnInterval();
+    if (this.course) {
+      this.spawnCourseObstacles(this.course, distance);
+    } else if (distance >= this.nextSpawnDistance) {
+      this.spawnObstacle(distance);
+      this.nextSpawnDistance = distance + this.getRandomSpawnInterval(distance);
     }
 
     // Move obstacles based on speed (they move left as horse "moves" right)
     const deltaSeconds = deltaTime / 1000;
-    const movement = speed * deltaSeconds * 2;  // Obstacles move faster than background
-    
+    const movement = speed * deltaSeconds * UI_CONFIG.groundScale;  // Obstacles move faster than background
+
     for (const obstacle of this.obstacles) {
-      obstacle.x -= movement;
+      const motion = getObstacleKind(obstacle.type).movement;
+      obstacle.age += deltaSeconds;
+      obstacle.x -= movement + (motion?.drift ?? 0) * deltaSeconds;
+      if (motion?.bobHeight) {
+        obstacle.y = obstacle.baseY +
+          Math.sin(obstacle.age * (motion.bobRate ?? 1) * Math.PI * 2) * motion.bobHeight;
+      }
     }
 
     // Remove obstacles that are off-screen left
@@ -112,140 +203,52 @@ export class ObstacleManager {
   }
 
   /**
-   * Check collision between horse and obstacles
+   * Check the horse's collision shape against each obstacle's; returns the
+   * obstacle hit
    */
-  checkCollision(horseX: number, horseY: number, horseWidth: number, horseHeight: number): boolean {
-    // Add some padding for more forgiving collision
-    const padding = 15;
-    
+  checkCollision(horse: HitRect[]): Obstacle | null {
     for (const obstacle of this.obstacles) {
-      // Simple AABB collision detection with padding
-      const horseLeft = horseX + padding;
-      const horseRight = horseX + horseWidth - padding;
-      const horseTop = horseY + padding;
-      const horseBottom = horseY + horseHeight - padding;
-      
-      const obsLeft = obstacle.x;
-      const obsRight = obstacle.x + obstacle.width;
-      const obsTop = obstacle.y;
-      const obsBottom = obstacle.y + obstacle.height;
-      
-      if (horseRight > obsLeft && 
-          horseLeft < obsRight && 
-          horseBottom > obsTop && 
-          horseTop < obsBottom) {
-        return true;  // Collision detected
+      const shape = placeShape(
+        getObstacleKind(obstacle.type).hitbox,
+        obstacle.x, obstacle.y, obstacle.width, obstacle.height
+      );
+      if (shapesOverlap(horse, shape)) {
+        return obstacle;
       }
     }
-    
-    return false;
-  }
-
-  /**
-   * Draw all obstacles
-   */
-  draw(ctx: CanvasRenderingContext2D): void {
-    for (const obstacle of this.obstacles) {
-      this.drawObstacle(ctx, obstacle);
-    }
-  }
 
-  /**
-   * Draw a single obstacle
-   */
-  private drawObstacle(ctx: CanvasRenderingContext2D, obstacle: Obstacle): void {
-    const config = OBSTACLE_CONFIG.types[obstacle.type];
-    
-    ctx.save();
-    
-    switch (obstacle.type) {
-      case 'rock':
-        this.drawRock(ctx, obstacle, config.color);
-        break;
-      case 'fence':
-        this.drawFence(ctx, obstacle, config.color);
-        break;
-      case 'barrel':
-        this.drawBarrel(ctx, obstacle, config.color);
-        break;
-    }
-    
-    ctx.restore();
+    return null;
   }
 
   /**
-   * Draw a rock obstacle
+   * Take an obstacle off the course (smashed by a shield)
    */
-  private drawRock(ctx: CanvasRenderingContext2D, obs: Obstacle, color: string): void {
-    ctx.fillStyle = color;
-    ctx.beginPath();
-    ctx.moveTo(obs.x + obs.width * 0.5, obs.y);
-    ctx.lineTo(obs.x + obs.width, obs.y + obs.height * 0.7);
-    ctx.lineTo(obs.x + obs.width * 0.8, obs.y + obs.height);
-    ctx.lineTo(obs.x + obs.width * 0.2, obs.y + obs.height);
-    ctx.lineTo(obs.x, obs.y + obs.height * 0.6);
-    ctx.closePath();
-    ctx.fill();
-    
-    // Highlight
-    ctx.fillStyle = '#9CA3AF';
-    ctx.beginPath();
-    ctx.moveTo(obs.x + obs.width * 0.5, obs.y + 5);
-    ctx.lineTo(obs.x + obs.width * 0.7, obs.y + obs.height * 0.4);
-    ctx.lineTo(obs.x + obs.width * 0.4, obs.y + obs.height * 0.5);
-    ctx.closePath();
-    ctx.fill();
+  removeObstacle(obstacle: Obstacle): void {
+    this.obstacles = this.obstacles.filter(o => o !== obstacle);
   }
 
   /**
-   * Draw a fence obstacle
+   * Get current obstacles (for drawing and debugging)
    */
-  private drawFence(ctx: CanvasRenderingContext2D, obs: Obstacle, color: string): void {
-    ctx.fillStyle = color;
-    
-    // Fence posts
-    const postWidth = 8;
-    ctx.fillRect(obs.x, obs.y, postWidth, obs.height);
-    ctx.fillRect(obs.x + obs.width - postWidth, obs.y, postWidth, obs.height);
-    
-    // Horizontal bars
-    ctx.fillRect(obs.x, obs.y + 10, obs.width, 8);
-    ctx.fillRect(obs.x, obs.y + obs.height * 0.5, obs.width, 8);
-    ctx.fillRect(obs.x, obs.y + obs.height - 18, obs.width, 8);
+  getObstacles(): Obstacle[] {
+    return this.obstacles;
   }
+}
 
-  /**
-   * Draw a barrel obstacle
-   */
-  private drawBarrel(ctx: CanvasRenderingContext2D, obs: Obstacle, color: string): void {
-    ctx.fillStyle = color;
-    
-    // Main barrel body
-    ctx.beginPath();
-    ctx.ellipse(
-      obs.x + obs.width / 2,
-      obs.y + obs.height / 2,
-      obs.width / 2,
-      obs.height / 2,
-      0, 0, Math.PI * 2
-    );
-    ctx.fill();
-    
-    // Metal bands
-    ctx.strokeStyle = '#374151';
-    ctx.lineWidth = 4;
-    ctx.beginPath();
-    ctx.moveTo(obs.x + 5, obs.y + obs.height * 0.25);
-    ctx.lineTo(obs.x + obs.width - 5, obs.y + obs.height * 0.25);
-    ctx.moveTo(obs.x + 5, obs.y + obs.height * 0.75);
-    ctx.lineTo(obs.x + obs.width - 5, obs.y + obs.height * 0.75);
-    ctx.stroke();
+/**
+ * Draw all obstacles
+ */
+export function drawObstacles(ctx: CanvasRenderingContext2D, obstacles: Obstacle[]): void {
+  for (const obstacle of obstacles) {
+    drawObstacle(ctx, obstacle);
   }
+}
 
-  /**
-   * Get current obstacles (for debugging)
-   */
-  getObstacles(): Obstacle[] {
-    return this.obstacles;
-  }
+/**
+ * Draw a single obstacle with its kind's draw routine
+ */
+function drawObstacle(ctx: CanvasRenderingContext2D, obstacle: Obstacle): void {
+  ctx.save();
+  getObstacleKind(obstacle.type).draw(ctx, obstacle);
+  ctx.restore();
 }
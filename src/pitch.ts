@@ -0,0 +1,100 @@
+import type { PitchReading } from './types';
+
+/**
+ * Pitch detection — YIN estimator (de Cheveigné & Kawahara, 2002).
+ *
+ * Works on raw time-domain samples, so it is not limited by FFT bin width
+ * and does not lock onto louder harmonics the way a "loudest bin" search does.
+ *
+ *   1. Difference function    d(τ) = Σ (x[i] − x[i+τ])²
+ *   2. Cumulative mean norm.  d'(τ) = d(τ) · τ / Σ d(1..τ)
+ *   3. First dip below threshold → period estimate
+ *   4. Parabolic interpolation around the dip → sub-sample period
+ *
+ * Confidence is 1 − d'(τ): a clean periodic voice scores close to 1,
+ * noise and breath score close to 0.
+ */
+
+export interface PitchDetectorOptions {
+  minFrequency: number;  // Lowest pitch to search for (Hz)
+  maxFrequency: number;  // Highest pitch to search for (Hz)
+  threshold: number;     // YIN absolute threshold (0.1–0.2 is typical)
+}
+
+const NO_PITCH: PitchReading = { frequency: 0, confidence: 0 };
+
+/**
+ * Estimate the fundamental frequency of a block of samples.
+ * Returns { frequency: 0, confidence: 0 } when no period is found.
+ */
+export function detectPitch(
+  buffer: Float32Array,
+  sampleRate: number,
+  options: PitchDetectorOptions
+): PitchReading {
+  const minTau = Math.max(2, Math.floor(sampleRate / options.maxFrequency));
+  const maxTau = Math.min(Math.floor(buffer.length / 2), Math.ceil(sampleRate / options.minFrequency));
+  if (maxTau <= minTau + 1) return NO_PITCH;
+
+  const windowSize = buffer.length - maxTau;
+  const yin = new Float32Array(maxTau + 1);
+
+  // --- difference function ---
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = buffer[i] - buffer[i + tau];
+      sum += delta * delta;
+    }
+    yin[tau] = sum;
+  }
+
+  // --- cumulative mean normalised difference ---
+  yin[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    runningSum += yin[tau];
+    yin[tau] = runningSum > 0 ? (yin[tau] * tau) / runningSum : 1;
+  }
+
+  // --- absolute threshold: first dip below threshold, walked to its minimum ---
+  let bestTau = -1;
+  for (let tau = minTau; tau <= maxTau; tau++) {
+    if (yin[tau] < options.threshold) {
+      while (tau + 1 <= maxTau && yin[tau + 1] < yin[tau]) {
+        tau++;
+      }
+      bestTau = tau;
+      break;
+    }
+  }
+
+  // No dip under the threshold → fall back to the global minimum (low confidence)
+  if (bestTau === -1) {
+    bestTau = minTau;
+    for (let tau = minTau + 1; tau <= maxTau; tau++) {
+      if (yin[tau] < yin[bestTau]) bestTau = tau;
+    }
+  }
+
+  const confidence = Math.max(0, Math.min(1, 1 - yin[bestTau]));
+
+  // --- parabolic interpolation for sub-sample accuracy ---
+  let refinedTau = bestTau;
+  if (bestTau > 1 && bestTau < maxTau) {
+    const s0 = yin[bestTau - 1];
+    const s1 = yin[bestTau];
+    const s2 = yin[bestTau + 1];
+    const denominator = s0 + s2 - 2 * s1;
+    if (denominator !== 0) {
+      refinedTau = bestTau + (s0 - s2) / (2 * denominator);
+    }
+  }
+
+  if (refinedTau <= 0) return NO_PITCH;
+
+  return {
+    frequency: sampleRate / refinedTau,
+    confidence,
+  };
+}
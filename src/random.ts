@@ -0,0 +1,58 @@
+/**
+ * Seeded random numbers — mulberry32, a tiny 32-bit PRNG.
+ * The same seed always gives the same sequence, so an obstacle course can be
+ * rebuilt (replayed, shared) from one number.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh seed for a new course.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Seed from text (FNV-1a hash), so a name or a date always gives the same course.
+ */
+export function seedFromString(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD — the daily challenge changes at midnight.
+ */
+export function dateKey(date: Date = new Date()): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Today's daily challenge seed: the same for everyone on the same date.
+ */
+export function dailySeed(date: Date = new Date()): number {
+  return seedFromString(`daily:${dateKey(date)}`);
+}
+
+/**
+ * A seed as players see it: 8 hex digits.
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+}
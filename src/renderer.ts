@@ -1,10 +1,16 @@
-import { CANVAS_DIMENSIONS } from './constants';
-import { Horse } from './horse';
-import { ObstacleManager } from './obstacle';
+import { BACKGROUND_TRANSITIONS, CANVAS_DIMENSIONS, UI_CONFIG } from './constants';
+import { HorseSprite } from './horse-sprite';
+import { courseObstacleX, drawObstacles } from './obstacle';
+import { drawCollectibles } from './collectible';
+import { drawMelodyNotes } from './melody';
+import type { CountdownDisplay } from './countdown';
+import type { HitRect, LaneView, SimulationSnapshot } from './types';
 
 /**
  * Renderer class - Handles all canvas rendering
- * Uses background images with parallax scrolling and transitions
+ * Draws simulation snapshots: background images scrolled by distance,
+ * obstacles, collectibles and the horse sprite. A head-to-head race splits the canvas
+ * into side-by-side lanes, one snapshot each.
  */
 export class Renderer {
   private canvas: HTMLCanvasElement;
@@ -13,22 +19,18 @@ export class Renderer {
   // Background images
   private backgrounds: HTMLImageElement[] = [];
   private bgLoaded: boolean[] = [false, false, false, false, false, false, false, false];
-  private backgroundOffset: number = 0;
+  private backgroundOffset: number = 0;  // Scroll position (= distance travelled)
+  private viewWidth: number;             // Width of the scene being drawn (canvas or lane)
+
+  // Horse sprite sheets
+  private horseSprite = new HorseSprite();
   
   // Warning text
   private warningFlashTimer: number = 0;
   private warningVisible: boolean = true;
   
   // Transition settings: [start distance, duration]
-  private readonly TRANSITIONS = [
-    { start: 2000, duration: 500 },   // bg1 -> bg2 at 2000m
-    { start: 4000, duration: 500 },   // bg2 -> bg3 at 4000m
-    { start: 6000, duration: 500 },   // bg3 -> bg4 at 6000m
-    { start: 8000, duration: 500 },   // bg4 -> bg5 at 8000m
-    { start: 10000, duration: 500 },  // bg5 -> bg6 at 10000m
-    { start: 12000, duration: 500 },  // bg6 -> bg7 at 12000m
-    { start: 15000, duration: 500 },  // bg7 -> bg8 at 15000m
-  ];
+  private readonly TRANSITIONS = BACKGROUND_TRANSITIONS;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -41,6 +43,7 @@ export class Renderer {
     // Set fixed internal canvas resolution (CSS handles display scaling)
     this.canvas.width = CANVAS_DIMENSIONS.width;
     this.canvas.height = CANVAS_DIMENSIONS.height;
+    this.viewWidth = this.canvas.width;
 
     // Load all background images
     const bgPaths = [
@@ -72,61 +75,159 @@ export class Renderer {
   }
 
   /**
-   * Update background scroll based on speed
+   * Render the complete scene for a simulation snapshot, optionally with
+   * a ghost run racing alongside
    */
-  updateParallax(speed: number, deltaTime: number): void {
-    const deltaSeconds = deltaTime / 1000;
-    
-    // Scroll background based on speed
-    this.backgroundOffset += speed * deltaSeconds;
-    
-    // Keep offset within reasonable bounds
-    if (this.bgLoaded[0] && this.backgrounds[0].width > 0) {
-      this.backgroundOffset %= this.backgrounds[0].width * 10;
-    }
+  render(snapshot: SimulationSnapshot, deltaTime: number = 16, ghost: SimulationSnapshot | null = null): void {
+    this.clear();
+    this.updateWarningFlash(deltaTime);
+    this.drawScene(snapshot, ghost);
   }
 
   /**
-   * Render the complete scene
+   * Render a head-to-head race: one lane per snapshot, side by side.
+   * Each lane keeps the horse at the left, so it shows the same view
+   * as a single-player run, just narrower.
    */
-  render(horse: Horse, _time: number, distance: number = 0, obstacleManager?: ObstacleManager, deltaTime: number = 16, obstaclesEnabled: boolean = false): void {
+  renderLanes(lanes: LaneView[], deltaTime: number = 16): void {
     this.clear();
-    
+    this.updateWarningFlash(deltaTime);
+
+    const laneWidth = this.canvas.width / lanes.length;
+    lanes.forEach((lane, index) => {
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.rect(index * laneWidth, 0, laneWidth, this.canvas.height);
+      this.ctx.clip();
+      this.ctx.translate(index * laneWidth, 0);
+      this.viewWidth = laneWidth;
+
+      this.drawScene(lane.snapshot);
+      if (lane.finishDistance !== null) {
+        this.drawFinishLine(lane.snapshot, lane.finishDistance);
+      }
+      this.drawLaneLabel(lane);
+
+      this.ctx.restore();
+    });
+    this.viewWidth = this.canvas.width;
+
+    // Lane dividers
+    this.ctx.fillStyle = '#F4A300';
+    for (let index = 1; index < lanes.length; index++) {
+      this.ctx.fillRect(index * laneWidth - 3, 0, 6, this.canvas.height);
+    }
+  }
+
+  /**
+   * Draw one scene (background, obstacles, horse, warning) at the origin
+   */
+  private drawScene(snapshot: SimulationSnapshot, ghost: SimulationSnapshot | null = null): void {
+    const { distance, obstaclesEnabled, flyingMode } = snapshot.state;
+
     // Draw scrolling background with transition based on distance
+    this.backgroundOffset = distance;
     this.drawBackground(distance);
     
     // Draw obstacles
-    if (obstacleManager) {
-      obstacleManager.draw(this.ctx);
+    if (obstaclesEnabled) {
+      drawObstacles(this.ctx, snapshot.obstacles);
     }
+
+    drawCollectibles(this.ctx, snapshot.collectibles, snapshot.time);
+    drawMelodyNotes(this.ctx, snapshot.melodyNotes);
     
-    // Draw the horse
-    horse.draw(this.ctx);
+    // Draw the ghost behind the live horse
+    if (ghost) {
+      this.drawGhost(snapshot, ghost);
+    }
+
+    // Draw the horse (with any power-ups it is carrying), blinking while
+    // obstacles can't hit it after losing a life
+    this.drawPowerUps(snapshot);
+    const blinking = snapshot.state.invulnerableTime > 0 && Math.floor(snapshot.time * 10) % 2 === 0;
+    this.horseSprite.draw(this.ctx, snapshot.horse, blinking ? UI_CONFIG.blinkAlpha : 1);
     
     // Draw warning text before obstacles start (only when obstacles are on)
     if (obstaclesEnabled) {
-      this.drawWarning(distance, deltaTime);
+      this.drawWarning(distance, flyingMode);
     }
   }
 
   /**
-   * Draw flashing warning text before obstacles appear
+   * Draw the ghost horse, placed by how far ahead of (or behind) the live
+   * horse it is. Off-screen ghosts are simply not drawn.
    */
-  private drawWarning(distance: number, deltaTime: number): void {
-    const WARNING_START = 4000;   // Start showing warning at 4000m
-    const WARNING_END = 4800;     // Stop showing warning at 4800m (before obstacles at 5000m)
-    const FLASH_INTERVAL = 200;   // Flash every 200ms
-    
-    if (distance < WARNING_START || distance >= WARNING_END) {
-      return;
+  private drawGhost(snapshot: SimulationSnapshot, ghost: SimulationSnapshot): void {
+    const offset = (ghost.state.distance - snapshot.state.distance) * UI_CONFIG.groundScale;
+    const horse = { ...ghost.horse, x: ghost.horse.x + offset };
+    if (horse.x > this.viewWidth || horse.x + horse.width < 0) return;
+
+    this.horseSprite.draw(this.ctx, horse, UI_CONFIG.ghostAlpha);
+  }
+
+  /**
+   * Lantern shield glow and firecracker speed streaks behind the horse
+   */
+  private drawPowerUps(snapshot: SimulationSnapshot): void {
+    const { horse, state } = snapshot;
+    const centerX = horse.x + horse.width / 2;
+    const centerY = horse.y + horse.height / 2;
+
+    this.ctx.save();
+    if (state.burstTime > 0) {
+      this.ctx.strokeStyle = 'rgba(255, 183, 3, 0.8)';
+      this.ctx.lineWidth = 4;
+      this.ctx.beginPath();
+      for (let i = 0; i < 5; i++) {
+        const y = horse.y + horse.height * (0.25 + i * 0.12);
+        const length = 40 + ((snapshot.time * 600 + i * 37) % 60);
+        this.ctx.moveTo(horse.x + 20, y);
+        this.ctx.lineTo(horse.x + 20 - length, y);
+      }
+      this.ctx.stroke();
     }
-    
-    // Update flash timer
+
+    if (state.shieldTime > 0) {
+      // Flicker for the last second so players know it's running out
+      const fading = state.shieldTime < 1 && Math.floor(snapshot.time * 10) % 2 === 0;
+      this.ctx.globalAlpha = fading ? 0.15 : 0.35;
+      this.ctx.fillStyle = '#FFB703';
+      this.ctx.strokeStyle = '#FFD700';
+      this.ctx.lineWidth = 3;
+      this.ctx.beginPath();
+      this.ctx.ellipse(centerX, centerY, horse.width * 0.45, horse.height * 0.45, 0, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.globalAlpha = 1;
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Advance the warning's on/off flashing (once per rendered frame)
+   */
+  private updateWarningFlash(deltaTime: number): void {
+    const FLASH_INTERVAL = 200;   // Flash every 200ms
+
     this.warningFlashTimer += deltaTime;
     if (this.warningFlashTimer >= FLASH_INTERVAL) {
       this.warningVisible = !this.warningVisible;
       this.warningFlashTimer = 0;
     }
+  }
+
+  /**
+   * Draw flashing warning text before obstacles appear
+   */
+  private drawWarning(distance: number, flyingMode: boolean): void {
+    // Flying obstacles start at 5000m, ground ones at 1000m
+    const WARNING_START = flyingMode ? 4000 : 300;
+    const WARNING_END = flyingMode ? 4800 : 900;
+    
+    if (distance < WARNING_START || distance >= WARNING_END) {
+      return;
+    }
     
     if (!this.warningVisible) {
       return;
@@ -136,7 +237,7 @@ export class Renderer {
     this.ctx.save();
     
     // Warning background
-    const centerX = this.canvas.width / 2;
+    const centerX = this.viewWidth / 2;
     const centerY = this.canvas.height / 3;
     
     // Glow effect
@@ -172,11 +273,130 @@ export class Renderer {
     this.ctx.font = '14px "Press Start 2P", monospace';
     this.ctx.shadowBlur = 5;
     this.ctx.fillStyle = '#90EE90';
-    this.ctx.fillText('Scream HIGHER to fly above!', centerX, centerY + 60);
+    this.ctx.fillText(flyingMode ? 'Change your pitch to dodge!' : 'Shout HUP! to jump over!', centerX, centerY + 60);
     
     this.ctx.restore();
   }
 
+  /**
+   * Draw the start countdown over the whole canvas (all lanes share one start)
+   */
+  drawCountdown(display: CountdownDisplay): void {
+    const centerX = this.canvas.width / 2;
+    const centerY = this.canvas.height / 2;
+
+    this.ctx.save();
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.shadowColor = display.alert ? '#FF0000' : '#FFB703';
+    this.ctx.shadowBlur = 20;
+
+    this.ctx.font = 'bold 48px "Press Start 2P", monospace';
+    this.ctx.strokeStyle = '#8B0000';
+    this.ctx.lineWidth = 8;
+    this.ctx.strokeText(display.title, centerX, centerY - 20);
+    this.ctx.fillStyle = display.alert ? '#FF6B6B' : '#FFD700';
+    this.ctx.fillText(display.title, centerX, centerY - 20);
+
+    if (display.subtitle) {
+      this.ctx.font = '14px "Press Start 2P", monospace';
+      this.ctx.shadowBlur = 5;
+      this.ctx.fillStyle = '#FFFFFF';
+      this.ctx.fillText(display.subtitle, centerX, centerY + 40);
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Course editor overlay: a distance ruler along the top, and a dashed box
+   * around the selected obstacle
+   */
+  drawCourseGuides(viewDistance: number, selection: HitRect | null): void {
+    const TICK = 100;  // Metres between ruler ticks
+
+    this.ctx.save();
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    this.ctx.fillRect(0, 0, this.canvas.width, 28);
+
+    this.ctx.strokeStyle = '#FFD700';
+    this.ctx.fillStyle = '#FFD700';
+    this.ctx.lineWidth = 2;
+    this.ctx.font = '10px "Press Start 2P", monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+
+    const first = Math.max(0, Math.floor(viewDistance / TICK) * TICK - TICK * 2);
+    for (let distance = first; ; distance += TICK) {
+      const x = courseObstacleX(distance, viewDistance);
+      if (x > this.canvas.width) break;
+      if (x < 0) continue;
+
+      const major = distance % (TICK * 5) === 0;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, 0);
+      this.ctx.lineTo(x, major ? 28 : 12);
+      this.ctx.stroke();
+      if (major) this.ctx.fillText(`${distance}m`, x + 4, 14);
+    }
+
+    if (selection) {
+      this.ctx.setLineDash([6, 4]);
+      this.ctx.strokeStyle = '#FFFFFF';
+      this.ctx.strokeRect(selection.x - 4, selection.y - 4, selection.width + 8, selection.height + 8);
+    }
+    this.ctx.restore();
+  }
+
+  /**
+   * Draw a chequered finish line on the ground, scrolling in with the obstacles
+   */
+  private drawFinishLine(snapshot: SimulationSnapshot, finishDistance: number): void {
+    const SQUARE = 16;
+    const { horse, state } = snapshot;
+
+    // The horse's nose touches the line when its score reaches the finish
+    // distance (an envelope brings the line closer)
+    const x = horse.x + horse.width + (finishDistance - state.score) * UI_CONFIG.groundScale;
+    if (x < -SQUARE * 2 || x > this.viewWidth) return;
+
+    const top = this.canvas.height / 2;
+    for (let row = 0; top + row * SQUARE < this.canvas.height; row++) {
+      for (let col = 0; col < 2; col++) {
+        this.ctx.fillStyle = (row + col) % 2 === 0 ? '#FFFFFF' : '#000000';
+        this.ctx.fillRect(x + col * SQUARE, top + row * SQUARE, SQUARE, SQUARE);
+      }
+    }
+  }
+
+  /**
+   * Draw the player's name, distance and status at the top of their lane
+   */
+  private drawLaneLabel(lane: LaneView): void {
+    const { score, isGameOver, isScreaming, livesEnabled, lives } = lane.snapshot.state;
+    const status = isGameOver ? '❌ OUT' : isScreaming ? '🔊' : '🔇';
+
+    this.ctx.save();
+    this.ctx.font = '16px "Press Start 2P", monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    this.ctx.lineWidth = 4;
+    this.ctx.strokeStyle = '#000000';
+    this.ctx.fillStyle = '#FFD700';
+
+    const lines = [`${lane.label} ${status}`, `${Math.floor(score)}m`];
+    if (livesEnabled && !isGameOver) {
+      lines.push('❤️'.repeat(lives));
+    }
+    lines.forEach((line, index) => {
+      this.ctx.strokeText(line, 20, 20 + index * 28);
+      this.ctx.fillText(line, 20, 20 + index * 28);
+    });
+    this.ctx.restore();
+  }
+
   /**
    * Get which backgrounds to show and their opacities based on distance
    */
@@ -268,8 +488,8 @@ export class Renderer {
     // Set opacity for transition
     this.ctx.globalAlpha = alpha;
     
-    // Draw images to cover the entire canvas
-    while (x < this.canvas.width) {
+    // Draw images to cover the entire view
+    while (x < this.viewWidth) {
       this.ctx.drawImage(
         img,
         x, 0,
@@ -289,7 +509,7 @@ export class Renderer {
     // Draw placeholder if first image not loaded
     if (!this.bgLoaded[0]) {
       this.ctx.fillStyle = '#2D3748';
-      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      this.ctx.fillRect(0, 0, this.viewWidth, this.canvas.height);
       return;
     }
 
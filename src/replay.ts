@@ -0,0 +1,299 @@
+import { DEFAULT_DIFFICULTY, REPLAY_CONFIG } from './constants';
+import { Simulation } from './simulation';
+import { createRandom } from './random';
+import { parseDifficulty } from './difficulty';
+import { validateCourse } from './course';
+import { validateVocalRange } from './vocal-range';
+import type { SimulationOptions } from './simulation';
+import type { Course, Difficulty, GameState, InputSample, Replay, SimulationSnapshot, VocalRange } from './types';
+
+/**
+ * Ghost replays — A run is fully determined by its options, its obstacle
+ * seed and the InputSample fed to each simulation step, so that is all a
+ * replay stores. Playing one back re-runs the Simulation with the same
+ * inputs and gets the same run, step for step.
+ */
+
+/**
+ * Simulation options that rebuild the replay's run (including its course).
+ */
+export function replayOptions(replay: Replay): SimulationOptions {
+  return {
+    flyingMode: replay.flyingMode,
+    obstaclesEnabled: replay.obstaclesEnabled,
+    staminaEnabled: replay.staminaEnabled,
+    livesEnabled: replay.livesEnabled,
+    melodyMode: replay.melodyMode,
+    difficulty: replay.difficulty,
+    course: replay.course,
+    vocalRange: replay.vocalRange,
+    random: createRandom(replay.seed),
+  };
+}
+
+/**
+ * Round an input to the precision a replay file keeps. Live runs feed the
+ * simulation rounded input too, so a replay reproduces them exactly.
+ */
+export function quantiseInput(input: InputSample): InputSample {
+  return {
+    ...input,
+    volumeLevel: Math.round(input.volumeLevel * 1e4) / 1e4,
+    pitch: {
+      frequency: Math.round(input.pitch.frequency * 100) / 100,
+      confidence: Math.round(input.pitch.confidence * 1e3) / 1e3,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+//  Recording and playback
+// ---------------------------------------------------------------------------
+
+/**
+ * ReplayRecorder — Collects the input of every simulation step of a run.
+ */
+export class ReplayRecorder {
+  private seed: number;
+  private flyingMode: boolean;
+  private obstaclesEnabled: boolean;
+  private staminaEnabled: boolean;
+  private livesEnabled: boolean;
+  private melodyMode: boolean;
+  private difficulty: Difficulty;
+  private course: Course | null;
+  private vocalRange: VocalRange | null;
+  private inputs: InputSample[] = [];
+
+  constructor(seed: number, options: SimulationOptions) {
+    this.seed = seed;
+    this.flyingMode = options.flyingMode;
+    this.obstaclesEnabled = options.obstaclesEnabled;
+    this.staminaEnabled = options.staminaEnabled;
+    this.livesEnabled = options.livesEnabled;
+    this.melodyMode = options.melodyMode;
+    this.difficulty = options.difficulty;
+    this.course = options.course;
+    this.vocalRange = options.vocalRange;
+  }
+
+  record(input: InputSample): void {
+    this.inputs.push(input);
+  }
+
+  /**
+   * The finished replay, scored with the run's final state.
+   */
+  finish(state: GameState): Replay {
+    return {
+      version: REPLAY_CONFIG.version,
+      seed: this.seed,
+      flyingMode: this.flyingMode,
+      obstaclesEnabled: this.obstaclesEnabled,
+      staminaEnabled: this.staminaEnabled,
+      livesEnabled: this.livesEnabled,
+      melodyMode: this.melodyMode,
+      difficulty: this.difficulty,
+      course: this.course,
+      vocalRange: this.vocalRange,
+      distance: state.score,
+      screamTime: state.screamTime,
+      recordedAt: Date.now(),
+      inputs: this.inputs,
+    };
+  }
+}
+
+/**
+ * GhostRunner — Plays a replay back one step at a time, alongside a live run.
+ * Once its inputs run out the ghost stays where its run ended.
+ */
+export class GhostRunner {
+  readonly replay: Replay;
+  private simulation: Simulation;
+  private index: number = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+    this.simulation = new Simulation(replayOptions(replay));
+  }
+
+  step(): void {
+    const input = this.replay.inputs[this.index];
+    if (!input) return;
+
+    this.index++;
+    this.simulation.step(input);
+  }
+
+  getSnapshot(): SimulationSnapshot {
+    return this.simulation.getSnapshot();
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  File format
+//
+//  JSON with the inputs run-length encoded: the input only changes once per
+//  audio feature frame (~2 simulation steps), and not at all during silence.
+//  Each entry is [steps, volumeLevel, pitch Hz, pitch confidence, flags].
+// ---------------------------------------------------------------------------
+
+const FILE_FORMAT = 'scream-race-replay';
+const FLAG_SCREAMING = 1;
+const FLAG_IGNORED = 2;
+
+type EncodedInput = [number, number, number, number, number];
+
+/**
+ * Serialise a replay for export (or storage).
+ */
+export function encodeReplay(replay: Replay): string {
+  const inputs: EncodedInput[] = [];
+  let previous: InputSample | null = null;
+
+  for (const input of replay.inputs) {
+    if (previous && sameInput(input, previous)) {
+      inputs[inputs.length - 1][0]++;
+      continue;
+    }
+
+    const flags = (input.isScreaming ? FLAG_SCREAMING : 0) | (input.inputIgnored ? FLAG_IGNORED : 0);
+    inputs.push([1, input.volumeLevel, input.pitch.frequency, input.pitch.confidence, flags]);
+    previous = input;
+  }
+
+  const { inputs: _, ...header } = replay;
+  return JSON.stringify({ format: FILE_FORMAT, ...header, inputs });
+}
+
+/**
+ * Parse an exported replay. Throws (with a message for the player) if the
+ * text is not a replay this version of the game can play.
+ */
+export function decodeReplay(text: string): Replay {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Scream Race replay');
+  }
+
+  if (data?.format !== FILE_FORMAT || !Array.isArray(data.inputs)) {
+    throw new Error('Not a Scream Race replay');
+  }
+  if (data.version !== REPLAY_CONFIG.version) {
+    throw new Error('Replay is from another version of the game');
+  }
+
+  const inputs: InputSample[] = [];
+  for (const entry of data.inputs as unknown[]) {
+    if (!Array.isArray(entry) || entry.length !== 5 || !entry.every(Number.isFinite)) {
+      throw new Error('Not a Scream Race replay');
+    }
+    const [steps, volumeLevel, frequency, confidence, flags] = entry as EncodedInput;
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('Not a Scream Race replay');
+    }
+    if (inputs.length + steps > REPLAY_CONFIG.maxSteps) {
+      throw new Error('Replay is too long');
+    }
+    const input: InputSample = {
+      volumeLevel,
+      isScreaming: (flags & FLAG_SCREAMING) !== 0,
+      inputIgnored: (flags & FLAG_IGNORED) !== 0,
+      pitch: { frequency, confidence },
+    };
+    for (let i = 0; i < steps; i++) {
+      inputs.push(input);
+    }
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed >>> 0,
+    flyingMode: Boolean(data.flyingMode),
+    obstaclesEnabled: Boolean(data.obstaclesEnabled),
+    staminaEnabled: Boolean(data.staminaEnabled),
+    livesEnabled: Boolean(data.livesEnabled),
+    melodyMode: Boolean(data.melodyMode),
+    difficulty: parseDifficulty(data.difficulty, DEFAULT_DIFFICULTY),
+    course: data.course ? validateCourse(data.course) : null,
+    vocalRange: validateVocalRange(data.vocalRange),
+    distance: Number(data.distance) || 0,
+    screamTime: Number(data.screamTime) || 0,
+    recordedAt: Number(data.recordedAt) || 0,
+    inputs,
+  };
+}
+
+function sameInput(a: InputSample, b: InputSample): boolean {
+  return a === b || (
+    a.volumeLevel === b.volumeLevel &&
+    a.isScreaming === b.isScreaming &&
+    a.inputIgnored === b.inputIgnored &&
+    a.pitch.frequency === b.pitch.frequency &&
+    a.pitch.confidence === b.pitch.confidence
+  );
+}
+
+// ---------------------------------------------------------------------------
+//  Best-run storage  (localStorage, one best run per game mode)
+// ---------------------------------------------------------------------------
+
+/** The toggles that make runs comparable */
+export type ReplayMode = Pick<Replay, 'flyingMode' | 'obstaclesEnabled' | 'staminaEnabled' | 'livesEnabled' | 'melodyMode' | 'difficulty' | 'course'>;
+
+function modeKey(mode: ReplayMode): string {
+  return (mode.flyingMode ? 'flying' : 'ground') +
+    (mode.obstaclesEnabled ? '+obstacles' : '') +
+    (mode.staminaEnabled ? '+stamina' : '') +
+    (mode.livesEnabled ? '+lives' : '') +
+    (mode.melodyMode ? '+melody' : '') +
+    (mode.difficulty !== DEFAULT_DIFFICULTY ? `+${mode.difficulty}` : '') +
+    (mode.course ? `+course:${mode.course.name}` : '');
+}
+
+function readBestReplays(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(REPLAY_CONFIG.storageKey);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.warn('Failed to read best replays:', error);
+    return {};
+  }
+}
+
+/**
+ * The player's best run in this mode, or null if there isn't one yet.
+ */
+export function loadBestReplay(mode: ReplayMode): Replay | null {
+  const encoded = readBestReplays()[modeKey(mode)];
+  if (!encoded) return null;
+
+  try {
+    return decodeReplay(encoded);
+  } catch (error) {
+    console.warn('Discarding unreadable best replay:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep `replay` if it beats the stored best for its mode.
+ * Returns true if it is the new best.
+ */
+export function saveBestReplay(replay: Replay): boolean {
+  const best = loadBestReplay(replay);
+  if (best && best.distance >= replay.distance) return false;
+
+  const replays = readBestReplays();
+  replays[modeKey(replay)] = encodeReplay(replay);
+  try {
+    localStorage.setItem(REPLAY_CONFIG.storageKey, JSON.stringify(replays));
+  } catch (error) {
+    console.warn('Failed to save best replay:', error);
+    return false;
+  }
+  return true;
+}
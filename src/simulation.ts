@@ -0,0 +1,376 @@
+import { GAME_CONFIG, AUDIO_CONFIG, JUMP_CONFIG, LIVES_CONFIG, MELODY_CONFIG, POWERUP_CONFIG, SIMULATION_CONFIG, VOICE_CONFIG } from './constants';
+import { Horse } from './horse';
+import { ObstacleManager } from './obstacle';
+import { CollectibleManager } from './collectible';
+import { createRandom } from './random';
+import { MelodyTracker } from './melody';
+import { NEW_YEAR_SONG } from './songs';
+import { VocalRangeTracker } from './vocal-range';
+import { StaminaMeter } from './stamina';
+import { DifficultyCurve } from './difficulty';
+import type { CollectibleType } from './collectible';
+import type { Obstacle } from './obstacle';
+import type {
+  Course,
+  Difficulty,
+  DifficultyLevel,
+  GameState,
+  InputSample,
+  MelodyNoteView,
+  SimulationSnapshot,
+  VocalRange,
+} from './types';
+
+/**
+ * Options fixed for the length of one run
+ */
+export interface SimulationOptions {
+  flyingMode: boolean;
+  obstaclesEnabled: boolean;
+  staminaEnabled: boolean;        // Breath rule (see StaminaMeter)
+  livesEnabled: boolean;          // Obstacle hits cost a life (see LIVES_CONFIG)
+  melodyMode: boolean;            // Sing the song's notes (flies from the start)
+  difficulty: Difficulty;         // Preset the difficulty curve follows
+  course: Course | null;          // Hand-made obstacle course (null = random from `random`)
+  vocalRange: VocalRange | null;  // Calibrated range (null = learn it during the run)
+  random?: () => number;          // Course randomness (defaults to Math.random)
+}
+
+/**
+ * Simulation - The game rules, with no DOM, audio or animation frames
+ *
+ * Advances in fixed timesteps of SIMULATION_CONFIG.timestep seconds, one
+ * InputSample per step, so the same inputs always produce the same run.
+ * The browser (Game) feeds it processed microphone input; a test or a Node
+ * script can feed it anything.
+ */
+export class Simulation {
+  private state: GameState;
+  private horse: Horse;
+  private obstacleManager: ObstacleManager;
+  private collectibleManager: CollectibleManager;
+  private vocalRange: VocalRangeTracker;
+  private stamina: StaminaMeter | null;
+  private melody: MelodyTracker | null = null;
+  private melodyRange: VocalRange | null = null;  // Fixed for the song, so notes stay put
+  private difficulty: DifficultyCurve;
+  private level: DifficultyLevel;    // The difficulty at the current distance
+  private time: number = 0;
+  private silenceTimer: number = 0;  // Track how long player has been silent
+  private ignoredTimer: number = 0;  // How long the voice classifier has been rejecting loud input
+  private knockoutTime: number = 0;  // Seconds of the last crash's tumble left before the run ends
+  private currentPitch: number = 0;  // Last confident pitch reading (Hz)
+  private averageVolume: number = 0; // Recent volume, for spotting a "HUP!" spike
+
+  constructor(options: SimulationOptions) {
+    this.horse = new Horse();
+    this.horse.setFlyingModeEnabled(options.flyingMode);
+    if (options.course?.flyingMode) {
+      // A flown course places obstacles in the sky from the very start
+      this.horse.setTransitionStart(0);
+    }
+    const random = options.random ?? Math.random;
+    this.difficulty = new DifficultyCurve(options.difficulty);
+    this.level = this.difficulty.at(0);
+    this.obstacleManager = new ObstacleManager(random, !options.flyingMode, this.difficulty, options.course);
+    // Pickups draw from their own stream so they don't reshuffle the obstacles
+    this.collectibleManager = new CollectibleManager(createRandom(Math.floor(random() * 2 ** 32)));
+    this.vocalRange = new VocalRangeTracker(options.vocalRange);
+    this.stamina = options.staminaEnabled ? new StaminaMeter() : null;
+    if (options.melodyMode) {
+      this.horse.setTransitionStart(0);
+      this.melodyRange = options.vocalRange ?? MELODY_CONFIG.fallbackRange;
+      this.melody = new MelodyTracker(NEW_YEAR_SONG, this.melodyRange);
+    }
+
+    this.state = {
+      isRunning: true,
+      isPaused: false,
+      isGameOver: false,
+      distance: 0,
+      score: 0,
+      speed: 0,
+      volumeLevel: 0,
+      screamTime: 0,
+      isScreaming: false,
+      inputIgnored: false,
+      flyingMode: options.flyingMode,
+      obstaclesEnabled: options.obstaclesEnabled,
+      staminaEnabled: options.staminaEnabled,
+      stamina: 1,
+      outOfBreath: false,
+      livesEnabled: options.livesEnabled,
+      lives: options.livesEnabled ? LIVES_CONFIG.lives : 1,
+      invulnerableTime: 0,
+      pickups: 0,
+      bonusDistance: 0,
+      shieldTime: 0,
+      burstTime: 0,
+      melody: this.melody?.getResult() ?? null,
+      reactionTime: null,
+    };
+  }
+
+  /**
+   * Advance one fixed timestep using `input`. Does nothing once the run is over.
+   */
+  step(input: InputSample): SimulationSnapshot {
+    if (this.state.isGameOver) return this.getSnapshot();
+
+    const deltaSeconds = SIMULATION_CONFIG.timestep;
+    const deltaTime = deltaSeconds * 1000;
+    this.time += deltaSeconds;
+    this.level = this.difficulty.at(this.state.distance);
+
+    // Out of lives: the world stops while the final tumble plays out
+    if (this.knockoutTime > 0) {
+      this.knockoutTime = Math.max(0, this.knockoutTime - deltaSeconds);
+      this.horse.update(deltaTime, 0, this.state.distance, this.currentPitch, this.melodyRange ?? this.vocalRange.getRange());
+      if (this.knockoutTime === 0) {
+        this.endRun();
+      }
+      return this.getSnapshot();
+    }
+
+    this.state.volumeLevel = input.volumeLevel;
+    this.state.isScreaming = input.isScreaming;
+    this.state.inputIgnored = input.inputIgnored;
+
+    // Power-ups wear off
+    this.state.shieldTime = Math.max(0, this.state.shieldTime - deltaSeconds);
+    this.state.burstTime = Math.max(0, this.state.burstTime - deltaSeconds);
+    this.state.invulnerableTime = Math.max(0, this.state.invulnerableTime - deltaSeconds);
+
+    // Pitch for flying horse control — low-confidence readings
+    // (breath, noise, cracked notes) keep the last confident value instead
+    if (input.pitch.confidence >= AUDIO_CONFIG.minPitchConfidence) {
+      this.currentPitch = input.pitch.frequency;
+      if (input.isScreaming) {
+        this.vocalRange.observe(input.pitch.frequency);
+      }
+    }
+
+    if (this.state.isScreaming) {
+      // Reset silence timer, accumulate scream time, speed follows volume
+      // (the run starts at GO, so the first scream times the reaction)
+      if (this.state.reactionTime === null) {
+        this.state.reactionTime = this.time - deltaSeconds;
+      }
+      this.silenceTimer = 0;
+      this.ignoredTimer = 0;
+      this.state.screamTime += deltaSeconds;
+      this.updateSpeed();
+
+      // Screaming past an empty breath meter collapses the horse
+      if (this.stamina) {
+        this.stamina.scream(this.state.volumeLevel, deltaSeconds);
+        this.state.stamina = this.stamina.level;
+        if (this.stamina.isSpent) {
+          this.state.outOfBreath = true;
+          this.endRun();
+          return this.getSnapshot();
+        }
+      }
+    } else {
+      // Track silence duration — a breath doesn't count until the meter is full.
+      // Loud input the voice classifier rejected isn't silence at first: it
+      // pauses the timer (a noisy scream keeps the run alive but doesn't
+      // drive it). Kept up for longer than `rejectTime` it's the room, not
+      // the player — clapping or music alone mustn't keep the run going.
+      this.ignoredTimer = input.inputIgnored ? this.ignoredTimer + deltaSeconds : 0;
+      if (this.ignoredTimer === 0 || this.ignoredTimer > VOICE_CONFIG.rejectTime) {
+        this.silenceTimer += deltaSeconds;
+      }
+      if (this.stamina && !this.stamina.isFull) {
+        this.stamina.breathe(deltaSeconds);
+        this.state.stamina = this.stamina.level;
+        this.silenceTimer = 0;
+      }
+
+      // Game over if silent for too long (with grace period). A song has
+      // breaths between its notes, so in melody mode only the song ends the
+      // run — missed notes just score nothing.
+      if (!this.melody && this.silenceTimer >= this.level.silenceGrace && this.state.screamTime > 0) {
+        this.endRun();
+        return this.getSnapshot();
+      }
+
+      // Slow down when not screaming
+      this.state.speed = Math.max(0, this.state.speed - 200 * deltaSeconds);
+    }
+
+    // Song clock starts with the first scream; the run ends with the song
+    if (this.melody) {
+      if (this.state.isScreaming && !this.melody.isStarted) this.melody.start();
+      this.melody.update(deltaSeconds, this.state.isScreaming ? this.currentPitch : 0);
+      this.state.melody = this.melody.getResult();
+      if (this.melody.isComplete) {
+        this.endRun();
+        return this.getSnapshot();
+      }
+    }
+
+    // A sudden burst of voice ("HUP!") jumps
+    const spike = input.volumeLevel - this.averageVolume;
+    if (input.isScreaming && spike >= JUMP_CONFIG.spikeRise && input.volumeLevel >= JUMP_CONFIG.minVolume) {
+      this.horse.jump();
+    }
+    this.averageVolume += spike * (1 - Math.exp(-deltaSeconds / JUMP_CONFIG.averageTime));
+
+    // A tumbling horse loses most of its stride
+    const speed = this.horse.isTumbling ? this.state.speed * LIVES_CONFIG.tumbleSpeed : this.state.speed;
+
+    // Accumulate distance based on speed
+    this.state.distance += speed * deltaSeconds;
+    this.state.score = this.state.distance + this.state.bonusDistance;
+
+    // Update horse animation (pass distance and pitch for flying transition)
+    this.horse.update(
+      deltaTime,
+      speed,
+      this.state.distance,
+      this.currentPitch,
+      this.melodyRange ?? this.vocalRange.getRange()
+    );
+
+    // Pick up collectibles (airborne ones only once the horse is flying)
+    const bounds = this.horse.getBounds();
+    const airborne = this.horse.getSnapshot().flyProgress > 0;
+    this.collectibleManager.update(this.state.distance, speed, deltaTime, airborne);
+    for (const collectible of this.collectibleManager.collect(bounds.x, bounds.y, bounds.width, bounds.height)) {
+      this.applyCollectible(collectible.type);
+    }
+
+    // Update obstacles (only when obstacles toggle is on)
+    if (this.state.obstaclesEnabled) {
+      this.obstacleManager.update(this.state.distance, speed, deltaTime);
+
+      // Check for collision with obstacles — a lantern shield takes one hit,
+      // and obstacles pass through a horse that has just lost a life
+      const hit = this.state.invulnerableTime > 0 ? null : this.obstacleManager.checkCollision(this.horse.getHitbox());
+      if (hit && this.state.shieldTime > 0) {
+        this.obstacleManager.removeObstacle(hit);
+        this.state.shieldTime = 0;
+      } else if (hit) {
+        this.crash(hit);
+      }
+    }
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * Calculate current speed based on volume level
+   */
+  private updateSpeed(): void {
+    // volumeLevel is already 0–1 (mapped from mic min/max in AudioManager)
+    const above = this.state.volumeLevel - GAME_CONFIG.volumeThreshold;
+    const normalised = Math.max(0, above) / (1 - GAME_CONFIG.volumeThreshold);
+
+    this.state.speed = GAME_CONFIG.baseSpeed + normalised * GAME_CONFIG.maxSpeedBoost;
+    if (this.state.burstTime > 0) {
+      this.state.speed += POWERUP_CONFIG.burstSpeed;
+    }
+    this.state.speed *= this.level.scrollMultiplier;
+  }
+
+  /**
+   * Apply the effect of a collected pickup
+   */
+  private applyCollectible(type: CollectibleType): void {
+    this.state.pickups++;
+    switch (type) {
+      case 'envelope':
+        // Scores extra metres without moving the horse, so a course's
+        // obstacles stay where they were placed
+        this.state.bonusDistance += POWERUP_CONFIG.envelopeBonus;
+        this.state.score = this.state.distance + this.state.bonusDistance;
+        break;
+      case 'lantern':
+        this.state.shieldTime = POWERUP_CONFIG.shieldDuration;
+        break;
+      case 'firecracker':
+        this.state.burstTime = POWERUP_CONFIG.burstDuration;
+        break;
+    }
+  }
+
+  /**
+   * The horse ran into `obstacle`: it smashes the obstacle and tumbles,
+   * losing a life. The last one ends the run once the tumble is over.
+   */
+  private crash(obstacle: Obstacle): void {
+    this.state.lives--;
+    this.obstacleManager.removeObstacle(obstacle);
+    this.horse.crash();
+
+    if (this.state.lives <= 0) {
+      this.knockoutTime = LIVES_CONFIG.tumbleDuration;
+      this.state.speed = 0;
+      return;
+    }
+    this.state.invulnerableTime = LIVES_CONFIG.invulnerability;
+  }
+
+  private endRun(): void {
+    this.state.isGameOver = true;
+    this.state.isRunning = false;
+    this.state.speed = 0;
+  }
+
+  /**
+   * Forget any silence so far (e.g. after the microphone was swapped mid-run)
+   */
+  clearSilence(): void {
+    this.silenceTimer = 0;
+    this.ignoredTimer = 0;
+  }
+
+  /**
+   * Song notes on screen: a note reaches the horse's head as it starts, at
+   * the height its pitch flies to
+   */
+  private getMelodyNotes(): MelodyNoteView[] {
+    if (!this.melody) return [];
+    const bounds = this.horse.getBounds();
+    return this.melody.getNoteViews(
+      bounds.x + bounds.width * 0.7,
+      position => this.horse.getFlyingY(position) + bounds.height / 2
+    );
+  }
+
+  get isGameOver(): boolean {
+    return this.state.isGameOver;
+  }
+
+  getState(): GameState {
+    return { ...this.state };
+  }
+
+  getSnapshot(): SimulationSnapshot {
+    return {
+      time: this.time,
+      state: this.getState(),
+      horse: this.horse.getSnapshot(),
+      obstacles: this.obstacleManager.getObstacles().map(o => ({ ...o })),
+      collectibles: this.collectibleManager.getCollectibles().map(c => ({ ...c })),
+      melodyNotes: this.getMelodyNotes(),
+    };
+  }
+}
+
+/**
+ * Run a whole game headlessly: step through `inputs` until they run out or
+ * the run ends, and return the final snapshot.
+ */
+export function simulateRun(inputs: Iterable<InputSample>, options: SimulationOptions): SimulationSnapshot {
+  const simulation = new Simulation(options);
+  let snapshot = simulation.getSnapshot();
+
+  for (const input of inputs) {
+    snapshot = simulation.step(input);
+    if (simulation.isGameOver) break;
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,20 @@
+import { parseNoteList } from './melody';
+import type { Song } from './types';
+
+/**
+ * Songs for sing-the-melody mode, written as note lists (see parseNoteList).
+ * Pitches are transposed into each player's range, so the octave here only
+ * sets the shape of the tune.
+ */
+
+/** 新年好 (Happy New Year) — traditional children's New Year song, in 3/4 */
+export const NEW_YEAR_SONG: Song = {
+  title: '新年好 Happy New Year',
+  bpm: 90,
+  notes: parseNoteList(`
+    C4:0.5 C4:0.5 C4:1 G3:1 | E4:0.5 E4:0.5 E4:1 C4:1 |
+    C4:0.5 E4:0.5 G4:1 G4:1 | F4:0.5 E4:0.5 D4:2 |
+    D4:0.5 E4:0.5 F4:1 F4:1 | E4:0.5 D4:0.5 E4:1 C4:1 |
+    C4:0.5 E4:0.5 D4:1 G3:1 | B3:0.5 D4:0.5 C4:2
+  `),
+};
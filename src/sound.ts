@@ -0,0 +1,394 @@
+import { BACKGROUND_TRANSITIONS, SOUND_CONFIG } from './constants';
+import type { SimulationSnapshot } from './types';
+
+/**
+ * Festive tune — C major pentatonic, one entry per eighth note (0 = rest).
+ */
+const MELODY: number[] = [
+  523, 587, 659, 0, 784, 659, 587, 0,
+  523, 440, 392, 440, 523, 0, 0, 0,
+  659, 784, 880, 784, 659, 587, 523, 0,
+  587, 659, 587, 523, 440, 0, 523, 0,
+];
+const BASS: number[] = [131, 0, 196, 0, 110, 0, 196, 0];
+
+/**
+ * SoundEngine - Synthesised sound effects and music (no audio files)
+ *
+ *   hoofbeats   timed to the horse's gallop frames
+ *   gong        each new background stage
+ *   firecracker Pegasus transformation
+ *   chime       collectible picked up
+ *   crash       game over, or a life lost
+ *   music       optional festive loop
+ *
+ * Uses its own AudioContext, so nothing it plays is ever routed into the
+ * microphone analysis graph. Sound that leaks through the air is kept out by
+ * ducking the music while the player screams, and by low-passing hoofbeats
+ * so they are too dull for the voice classifier to count as a voice.
+ */
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+
+  // Music scheduling (look-ahead so timing doesn't depend on the frame rate)
+  private musicEnabled: boolean = false;
+  private musicTimer: number | null = null;
+  private nextNoteTime: number = 0;
+  private noteIndex: number = 0;
+  private readonly SCHEDULE_AHEAD = 0.1;     // Seconds of music scheduled in advance
+  private readonly SCHEDULE_INTERVAL = 25;   // ms between scheduler runs
+
+  // Event detection between snapshots
+  private lastFrame: number = -1;
+  private lastStage: number = 0;
+  private lastFlyProgress: number = 0;
+  private lastPickups: number = 0;
+  private lastLives: number = 0;
+  private isDucked: boolean = false;
+
+  /**
+   * Create the output graph. Must be called from a user gesture.
+   */
+  async start(): Promise<void> {
+    if (!this.context) {
+      this.context = new AudioContext();
+
+      this.master = this.context.createGain();
+      this.master.gain.value = SOUND_CONFIG.masterVolume;
+      this.master.connect(this.context.destination);
+
+      this.sfxBus = this.context.createGain();
+      this.sfxBus.gain.value = SOUND_CONFIG.sfxVolume;
+      this.sfxBus.connect(this.master);
+
+      this.musicBus = this.context.createGain();
+      this.musicBus.gain.value = SOUND_CONFIG.musicVolume;
+      this.musicBus.connect(this.master);
+
+      this.noiseBuffer = this.createNoiseBuffer(this.context);
+    }
+
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Run lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A new run starts: reset event tracking and (optionally) start the music.
+   */
+  beginRun(musicEnabled: boolean): void {
+    this.lastFrame = -1;
+    this.lastStage = 0;
+    this.lastFlyProgress = 0;
+    this.lastPickups = 0;
+    this.lastLives = 0;
+    this.isDucked = false;
+    this.musicEnabled = musicEnabled;
+
+    if (this.musicBus && this.context) {
+      this.musicBus.gain.cancelScheduledValues(this.context.currentTime);
+      this.musicBus.gain.setValueAtTime(SOUND_CONFIG.musicVolume, this.context.currentTime);
+    }
+    if (musicEnabled) {
+      this.startMusic();
+    }
+  }
+
+  /**
+   * Play whatever the latest simulation step calls for.
+   */
+  update(snapshot: SimulationSnapshot): void {
+    if (!this.context) return;
+    const { horse, state } = snapshot;
+
+    // Hoofbeats — only while the horse's feet are on the ground
+    if (horse.frame !== this.lastFrame) {
+      if (state.speed > 0 && horse.flyProgress < 1 && SOUND_CONFIG.hoofFrames.includes(horse.frame)) {
+        this.playHoofbeat(1 - horse.flyProgress);
+      }
+      this.lastFrame = horse.frame;
+    }
+
+    // Gong for each new background stage
+    const stage = BACKGROUND_TRANSITIONS.filter(t => state.distance >= t.start).length;
+    if (stage > this.lastStage) {
+      this.playGong(110 + stage * 10);
+      this.lastStage = stage;
+    }
+
+    // Firecrackers when the horse turns into a Pegasus
+    if (horse.flyProgress > 0 && this.lastFlyProgress === 0) {
+      this.playFirecrackers();
+    }
+    this.lastFlyProgress = horse.flyProgress;
+
+    // Coin chime for each collectible picked up
+    if (state.pickups > this.lastPickups) {
+      this.playChime();
+      this.lastPickups = state.pickups;
+    }
+
+    // Crash for each life lost (the last one ends the run, see endRun)
+    if (state.lives < this.lastLives && !state.isGameOver) {
+      this.playCrash();
+    }
+    this.lastLives = state.lives;
+
+    // Keep music out of the microphone while the player is screaming
+    this.setDucked(state.isScreaming);
+  }
+
+  /**
+   * The run ended: stop the music and play the crash.
+   */
+  endRun(): void {
+    this.stopMusic();
+    this.playCrash();
+  }
+
+  /**
+   * The run was abandoned: stop the music, no crash.
+   */
+  stop(): void {
+    this.stopMusic();
+  }
+
+  pause(): void {
+    this.context?.suspend();
+  }
+
+  resume(): void {
+    this.context?.resume();
+  }
+
+  dispose(): void {
+    this.stopMusic();
+    this.context?.close();
+    this.context = null;
+    this.master = null;
+    this.sfxBus = null;
+    this.musicBus = null;
+    this.noiseBuffer = null;
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Sound effects
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Short low thump: falling sine plus low-passed noise.
+   */
+  private playHoofbeat(volume: number): void {
+    const ctx = this.context!;
+    const now = ctx.currentTime;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = SOUND_CONFIG.hoofCutoff;
+    filter.connect(this.sfxBus!);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.9 * volume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.09);
+    gain.connect(filter);
+
+    const thump = ctx.createOscillator();
+    thump.frequency.setValueAtTime(90, now);
+    thump.frequency.exponentialRampToValueAtTime(40, now + 0.08);
+    thump.connect(gain);
+    thump.start(now);
+    thump.stop(now + 0.1);
+
+    this.playNoise(now, 0.05, 0.4 * volume, filter);
+  }
+
+  /**
+   * Gong: inharmonic partials with a long decay.
+   */
+  private playGong(baseFrequency: number, volume: number = 0.5): void {
+    const ctx = this.context!;
+    const now = ctx.currentTime;
+    const partials = [1, 1.48, 2.03, 2.63, 3.2];
+
+    partials.forEach((ratio, index) => {
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(volume / (index + 1), now);
+      gain.gain.exponentialRampToValueAtTime(0.001, now + 2.5 - index * 0.3);
+      gain.connect(this.sfxBus!);
+
+      const osc = ctx.createOscillator();
+      osc.frequency.setValueAtTime(baseFrequency * ratio * 1.01, now);
+      osc.frequency.exponentialRampToValueAtTime(baseFrequency * ratio, now + 0.5);
+      osc.connect(gain);
+      osc.start(now);
+      osc.stop(now + 2.6);
+    });
+  }
+
+  /**
+   * String of firecracker pops: short high-passed noise bursts.
+   */
+  private playFirecrackers(count: number = 10): void {
+    const ctx = this.context!;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 1200;
+    filter.connect(this.sfxBus!);
+
+    let time = ctx.currentTime;
+    for (let i = 0; i < count; i++) {
+      this.playNoise(time, 0.03, 0.6 + Math.random() * 0.4, filter);
+      time += 0.05 + Math.random() * 0.1;
+    }
+  }
+
+  /**
+   * Pickup: two quick rising bell tones.
+   */
+  private playChime(): void {
+    const ctx = this.context!;
+    const now = ctx.currentTime;
+
+    [1318.5, 1760].forEach((frequency, index) => {
+      const time = now + index * 0.07;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0.3, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.25);
+      gain.connect(this.sfxBus!);
+
+      const osc = ctx.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.value = frequency;
+      osc.connect(gain);
+      osc.start(time);
+      osc.stop(time + 0.3);
+    });
+  }
+
+  /**
+   * Game over: noise burst sweeping down plus a low gong.
+   */
+  private playCrash(): void {
+    if (!this.context) return;
+    const ctx = this.context;
+    const now = ctx.currentTime;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(4000, now);
+    filter.frequency.exponentialRampToValueAtTime(200, now + 0.6);
+    filter.connect(this.sfxBus!);
+
+    this.playNoise(now, 0.6, 0.8, filter);
+    this.playGong(70, 0.6);
+  }
+
+  /**
+   * One burst of white noise with a fast decay.
+   */
+  private playNoise(time: number, duration: number, volume: number, destination: AudioNode): void {
+    const ctx = this.context!;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    gain.connect(destination);
+
+    const noise = ctx.createBufferSource();
+    noise.buffer = this.noiseBuffer;
+    noise.connect(gain);
+    noise.start(time, Math.random() * 0.5);
+    noise.stop(time + duration);
+  }
+
+  private createNoiseBuffer(ctx: AudioContext): AudioBuffer {
+    const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] = Math.random() * 2 - 1;
+    }
+    return buffer;
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Music
+  // ---------------------------------------------------------------------------
+
+  private startMusic(): void {
+    if (!this.context || this.musicTimer !== null) return;
+
+    this.nextNoteTime = this.context.currentTime + 0.05;
+    this.noteIndex = 0;
+    this.musicTimer = window.setInterval(() => this.scheduleMusic(), this.SCHEDULE_INTERVAL);
+  }
+
+  private stopMusic(): void {
+    if (this.musicTimer !== null) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = null;
+    }
+  }
+
+  /**
+   * Schedule every note that starts within the look-ahead window.
+   */
+  private scheduleMusic(): void {
+    if (!this.context || !this.musicEnabled) return;
+    const eighth = 60 / SOUND_CONFIG.musicTempo / 2;
+
+    while (this.nextNoteTime < this.context.currentTime + this.SCHEDULE_AHEAD) {
+      const lead = MELODY[this.noteIndex % MELODY.length];
+      if (lead > 0) {
+        this.playNote(lead, this.nextNoteTime, eighth * 0.9, 'square', 0.12);
+      }
+
+      if (this.noteIndex % 2 === 0) {
+        const bass = BASS[(this.noteIndex / 2) % BASS.length];
+        if (bass > 0) {
+          this.playNote(bass, this.nextNoteTime, eighth * 1.8, 'triangle', 0.3);
+        }
+      }
+
+      this.nextNoteTime += eighth;
+      this.noteIndex++;
+    }
+  }
+
+  private playNote(frequency: number, time: number, duration: number, type: OscillatorType, volume: number): void {
+    const ctx = this.context!;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(volume, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    gain.connect(this.musicBus!);
+
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = frequency;
+    osc.connect(gain);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  /**
+   * Fade the music out while the player screams, back in when they stop.
+   */
+  private setDucked(ducked: boolean): void {
+    if (ducked === this.isDucked || !this.context || !this.musicBus) return;
+    this.isDucked = ducked;
+
+    const target = ducked ? SOUND_CONFIG.musicDuckLevel : SOUND_CONFIG.musicVolume;
+    const now = this.context.currentTime;
+    this.musicBus.gain.cancelScheduledValues(now);
+    this.musicBus.gain.setValueAtTime(this.musicBus.gain.value, now);
+    this.musicBus.gain.linearRampToValueAtTime(target, now + SOUND_CONFIG.duckTime);
+  }
+}
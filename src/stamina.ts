@@ -0,0 +1,39 @@
+import { STAMINA_CONFIG } from './constants';
+
+/**
+ * StaminaMeter — The breath rule.
+ *
+ * Screaming drains the meter in proportion to volume; silence refills it.
+ * A breath is only allowed while the meter is refilling, so the simulation
+ * asks `isFull` before counting silence towards game over. Screaming on an
+ * empty meter for longer than the exhaustion grace leaves the player `spent`.
+ */
+export class StaminaMeter {
+  private _level: number = 1;
+  private exhaustedTime: number = 0;  // Seconds screamed on an empty meter
+
+  get level(): number {
+    return this._level;
+  }
+
+  get isFull(): boolean {
+    return this._level >= 1;
+  }
+
+  get isSpent(): boolean {
+    return this.exhaustedTime >= STAMINA_CONFIG.exhaustionGrace;
+  }
+
+  scream(volumeLevel: number, duration: number): void {
+    if (this._level <= 0) {
+      this.exhaustedTime += duration;
+      return;
+    }
+    this._level = Math.max(0, this._level - STAMINA_CONFIG.drainRate * volumeLevel * duration);
+  }
+
+  breathe(duration: number): void {
+    this.exhaustedTime = 0;
+    this._level = Math.min(1, this._level + STAMINA_CONFIG.refillRate * duration);
+  }
+}
@@ -0,0 +1,245 @@
+import { TOURNAMENT_CONFIG } from './constants';
+import { validateVolumeProfile } from './calibration';
+import { validateVocalRange } from './vocal-range';
+import type {
+  PlayerCalibration,
+  Standing,
+  StartRecord,
+  TournamentFormat,
+  TournamentPlayer,
+  TournamentTurn,
+  TurnResult,
+} from './types';
+
+// ---------------------------------------------------------------------------
+//  Player storage  (localStorage, keyed by player name)
+// ---------------------------------------------------------------------------
+
+function readPlayers(): Record<string, PlayerCalibration> {
+  try {
+    const raw = localStorage.getItem(TOURNAMENT_CONFIG.storageKey);
+    const players: Record<string, unknown> = raw ? JSON.parse(raw) : {};
+    return Object.fromEntries(Object.entries(players).flatMap(([name, data]) => {
+      const calibration = validatePlayerCalibration(data);
+      if (!calibration) {
+        console.warn('Discarding unreadable player calibration:', name);
+        return [];
+      }
+      return [[name, calibration]];
+    }));
+  } catch (error) {
+    console.warn('Failed to read player calibrations:', error);
+    return {};
+  }
+}
+
+/**
+ * A player's saved calibration, or null if either half is set but unusable
+ */
+function validatePlayerCalibration(data: unknown): PlayerCalibration | null {
+  const calibration = data as Partial<PlayerCalibration> | null;
+  if (!calibration || typeof calibration !== 'object') return null;
+
+  const profile = calibration.profile ? validateVolumeProfile(calibration.profile) : null;
+  const vocalRange = calibration.vocalRange ? validateVocalRange(calibration.vocalRange) : null;
+  if ((calibration.profile && !profile) || (calibration.vocalRange && !vocalRange)) return null;
+  return { profile, vocalRange };
+}
+
+/**
+ * Saved calibration for a player, so returning players skip the mic check.
+ */
+export function loadPlayerCalibration(name: string): PlayerCalibration {
+  return readPlayers()[name] ?? { profile: null, vocalRange: null };
+}
+
+export function savePlayerCalibration(name: string, calibration: PlayerCalibration): void {
+  const players = readPlayers();
+  players[name] = calibration;
+  try {
+    localStorage.setItem(TOURNAMENT_CONFIG.storageKey, JSON.stringify(players));
+  } catch (error) {
+    console.warn('Failed to save player calibration:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Tournament
+// ---------------------------------------------------------------------------
+
+/**
+ * Tournament — Turn order and scoring for local hot-seat play.
+ *
+ *   rounds   everyone screams once per round, in the order entered;
+ *            ranked by total distance
+ *   bracket  single elimination: players are paired in the order entered,
+ *            the longer run of each pair goes through (odd player out gets a bye)
+ *
+ * Pure bookkeeping — Game plays the turns and reports each result.
+ */
+export class Tournament {
+  readonly format: TournamentFormat;
+  private players: TournamentPlayer[];
+  private totalRounds: number;
+  private round: number = 1;
+  private queue: TournamentPlayer[] = [];    // Turns still to play this round
+  private matches: TournamentPlayer[][] = []; // Bracket pairings this round
+  private finished: boolean = false;
+
+  constructor(names: string[], format: TournamentFormat, rounds: number = 1) {
+    if (names.length === 0) {
+      throw new Error('Add at least one player');
+    }
+    if (format === 'bracket' && names.length < 2) {
+      throw new Error('A bracket needs at least two players');
+    }
+    if (new Set(names).size !== names.length) {
+      throw new Error('Player names must be different');
+    }
+
+    this.format = format;
+    this.players = names.map(name => ({
+      name,
+      calibration: loadPlayerCalibration(name),
+      results: [],
+      eliminated: false,
+    }));
+    this.totalRounds = format === 'bracket'
+      ? Math.ceil(Math.log2(names.length))
+      : Math.max(1, rounds);
+
+    this.startRound();
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Whose turn it is, or null once the tournament is over.
+   */
+  getCurrentTurn(): TournamentTurn | null {
+    const player = this.queue[0];
+    if (!player) return null;
+
+    return {
+      player,
+      round: this.round,
+      totalRounds: this.totalRounds,
+      opponent: this.findOpponent(player)?.name ?? null,
+    };
+  }
+
+  /**
+   * Record the current player's run and move on to the next turn.
+   */
+  recordResult(distance: number, screamTime: number, start: StartRecord): void {
+    const player = this.queue.shift();
+    if (!player) return;
+
+    player.results.push({ round: this.round, distance, screamTime, start });
+
+    if (this.queue.length === 0) {
+      this.endRound();
+    }
+  }
+
+  /**
+   * Scoreboard, best first.
+   */
+  getStandings(): Standing[] {
+    const standings = this.players.map(player => {
+      const reactions = player.results
+        .map(r => r.start.reactionTime)
+        .filter((time): time is number => time !== null);
+      return {
+        name: player.name,
+        best: Math.max(0, ...player.results.map(r => r.distance)),
+        total: player.results.reduce((sum, r) => sum + r.distance, 0),
+        turns: player.results.length,
+        eliminated: player.eliminated,
+        bestReaction: reactions.length > 0 ? Math.min(...reactions) : null,
+        falseStarts: player.results.reduce((sum, r) => sum + r.start.falseStarts, 0),
+      };
+    });
+
+    if (this.format === 'bracket') {
+      // Survivors first, then whoever got knocked out latest (byes don't count as turns)
+      const reached = new Map(this.players.map(p => [p.name, Math.max(0, ...p.results.map(r => r.round))]));
+      return standings.sort((a, b) =>
+        Number(a.eliminated) - Number(b.eliminated) ||
+        reached.get(b.name)! - reached.get(a.name)! ||
+        b.best - a.best
+      );
+    }
+    return standings.sort((a, b) => b.total - a.total || b.best - a.best);
+  }
+
+  /**
+   * Winner's name once the tournament is over.
+   */
+  getChampion(): string | null {
+    return this.finished ? this.getStandings()[0].name : null;
+  }
+
+  private startRound(): void {
+    if (this.format === 'rounds') {
+      this.queue = [...this.players];
+      return;
+    }
+
+    // Pair up the remaining players; an odd one out gets a bye (a pair of one)
+    const alive = this.players.filter(p => !p.eliminated);
+    this.matches = [];
+    for (let i = 0; i < alive.length; i += 2) {
+      this.matches.push(alive.slice(i, i + 2));
+    }
+    this.queue = this.matches.filter(match => match.length === 2).flat();
+  }
+
+  private endRound(): void {
+    if (this.format === 'bracket') {
+      for (const match of this.matches) {
+        if (match.length < 2) continue;
+        const [first, second] = match;
+        const loser = this.beats(second, first) ? first : second;
+        loser.eliminated = true;
+      }
+    }
+
+    const done = this.format === 'bracket'
+      ? this.players.filter(p => !p.eliminated).length <= 1
+      : this.round >= this.totalRounds;
+
+    if (done) {
+      this.finished = true;
+      this.queue = [];
+      return;
+    }
+
+    this.round++;
+    this.startRound();
+  }
+
+  /**
+   * Did `a` beat `b` this round? Longer distance wins, then longer scream;
+   * a dead heat goes to `b`, the player listed first.
+   */
+  private beats(a: TournamentPlayer, b: TournamentPlayer): boolean {
+    const resultA = this.roundResult(a);
+    const resultB = this.roundResult(b);
+    if (!resultA || !resultB) return !resultB;
+    if (resultA.distance !== resultB.distance) return resultA.distance > resultB.distance;
+    return resultA.screamTime > resultB.screamTime;
+  }
+
+  private roundResult(player: TournamentPlayer): TurnResult | undefined {
+    return player.results.find(r => r.round === this.round);
+  }
+
+  private findOpponent(player: TournamentPlayer): TournamentPlayer | undefined {
+    if (this.format !== 'bracket') return undefined;
+    const match = this.matches.find(m => m.includes(player));
+    return match?.find(p => p !== player);
+  }
+}
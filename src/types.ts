@@ -1,15 +1,61 @@
+import type { Collectible } from './collectible';
+import type { Obstacle, ObstacleType } from './obstacle';
+
 // ===== Game State Interface =====
 export interface GameState {
   isRunning: boolean;
   isPaused: boolean;
   isGameOver: boolean;
-  distance: number;
+  distance: number;          // Metres travelled (obstacles and courses are placed along this)
+  score: number;             // Metres scored: distance plus envelope bonuses
   speed: number;
   volumeLevel: number;
   screamTime: number;        // Time spent screaming in seconds
   isScreaming: boolean;      // Currently screaming
+  inputIgnored: boolean;     // Loud, but not a voice (clap, tap, blowing, music)
   flyingMode: boolean;       // Horse transitions to Pegasus at 5000m
-  obstaclesEnabled: boolean; // Spawn obstacles (only works with flying mode)
+  obstaclesEnabled: boolean; // Spawn obstacles (jumped on the ground, dodged when flying)
+  staminaEnabled: boolean;   // Breath rule on (see STAMINA_CONFIG)
+  stamina: number;           // 0–1 breath left (stays 1 with the rule off)
+  outOfBreath: boolean;      // Run ended by screaming on an empty meter
+  livesEnabled: boolean;     // Lives rule on (see LIVES_CONFIG)
+  lives: number;             // Obstacle hits left before the run ends
+  invulnerableTime: number;  // Seconds until obstacles can hit again after losing a life
+  pickups: number;           // Collectibles picked up this run
+  bonusDistance: number;     // Meters of score that came from red envelopes
+  shieldTime: number;        // Seconds of lantern shield left (0 = none)
+  burstTime: number;         // Seconds of firecracker speed burst left
+  melody: MelodyResult | null; // Song score in sing-the-melody mode
+  reactionTime: number | null; // Seconds from GO to the first scream
+}
+
+// ===== Simulation Input =====
+// One fixed timestep of processed player input (see Simulation)
+export interface InputSample {
+  volumeLevel: number;   // 0–1 normalised volume
+  isScreaming: boolean;  // Noise gate open and the input is a voice
+  inputIgnored: boolean; // Loud, but rejected by the voice classifier
+  pitch: PitchReading;   // Raw pitch reading (the simulation filters by confidence)
+}
+
+// ===== Simulation Snapshot =====
+export interface HorseSnapshot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  frame: number;         // Animation frame (0–5)
+  flyProgress: number;   // 0 = running horse, 1 = Pegasus
+  tumble: number;        // 0–1 through the crash tumble (0 = upright)
+}
+
+export interface SimulationSnapshot {
+  time: number;          // Simulated seconds since the run started
+  state: GameState;
+  horse: HorseSnapshot;
+  obstacles: Obstacle[];
+  collectibles: Collectible[];
+  melodyNotes: MelodyNoteView[];  // On-screen song notes (melody mode)
 }
 
 // ===== Game Configuration Interface =====
@@ -17,7 +63,34 @@ export interface GameConfig {
   baseSpeed: number;
   maxSpeedBoost: number;
   volumeThreshold: number;   // 0–1 normalised volume needed to count as screaming
-  silenceGracePeriod: number; // Seconds of silence before game over
+}
+
+// ===== Difficulty =====
+export type Difficulty = 'easy' | 'normal' | 'insane';
+
+// A setting that moves from `start` (0m) to `end` (the preset's rampDistance)
+export interface DifficultyRamp {
+  start: number;
+  end: number;
+}
+
+export interface DifficultyPreset {
+  label: string;
+  rampDistance: number;           // Metres until every setting reaches its end value
+  minSpawnInterval: DifficultyRamp;  // Metres between obstacles
+  maxSpawnInterval: DifficultyRamp;
+  aerialWeight: DifficultyRamp;   // Spawn chance multiplier for airborne obstacle kinds
+  scrollMultiplier: DifficultyRamp;  // Multiplies the horse's speed
+  silenceGrace: DifficultyRamp;   // Seconds of silence before game over
+}
+
+// The preset's settings at one distance
+export interface DifficultyLevel {
+  minSpawnInterval: number;
+  maxSpawnInterval: number;
+  aerialWeight: number;
+  scrollMultiplier: number;
+  silenceGrace: number;
 }
 
 // ===== Canvas Dimensions =====
@@ -39,6 +112,15 @@ export interface SpriteFrame {
   height: number;
 }
 
+// ===== Collision Shapes =====
+// Shapes are lists of rectangles; two shapes touch if any rectangles overlap
+export interface HitRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 // ===== Parallax Layer Interface =====
 export interface ParallaxLayer {
   speed: number;
@@ -78,7 +160,192 @@ export interface ColorPalette {
 }
 
 // ===== Screen Types =====
-export type ScreenType = 'start' | 'game' | 'gameover';
+export type ScreenType = 'calibration' | 'start' | 'lobby' | 'turn' | 'versus' | 'editor' | 'game' | 'gameover';
+
+// ===== Microphone Calibration =====
+export interface VolumeProfile {
+  deviceId: string;      // MediaTrackSettings.deviceId of the calibrated input
+  label: string;         // Human-readable device name
+  floor: number;         // Raw RMS treated as silence (maps to 0)
+  ceiling: number;       // Raw RMS treated as a full scream (maps to 1)
+  calibratedAt: number;  // Epoch ms
+}
+
+export type CalibrationPhase = 'silence' | 'scream' | 'low' | 'high' | 'done';
+
+// ===== Sing-the-Melody Mode =====
+export interface SongNote {
+  semitones: number;   // Pitch relative to A4
+  beats: number;       // Length in beats
+}
+
+export interface Song {
+  title: string;
+  bpm: number;
+  notes: SongNote[];
+}
+
+export type MelodyNoteStatus = 'upcoming' | 'active' | 'hit' | 'missed';
+
+export interface MelodyNoteView {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  status: MelodyNoteStatus;
+  onPitch: boolean;    // Player is on this note right now
+}
+
+export interface MelodyResult {
+  title: string;
+  notesHit: number;
+  notesJudged: number;   // Notes already over
+  notesTotal: number;
+  accuracy: number;      // 0–1 average share of each judged note sung on pitch
+  streak: number;        // Notes hit in a row right now
+  bestStreak: number;
+  score: number;
+  complete: boolean;     // Sang to the end of the song
+}
+
+// ===== Start Countdown =====
+export type CountdownPhase = 'signal' | 'quiet' | 'count' | 'falseStart' | 'go';
+
+// One lane's microphone during the countdown
+export interface LaneReadiness {
+  hasSignal: boolean;   // Audio frames with any signal have arrived
+  level: number;        // Loudest normalised volume since the last update
+  screaming: boolean;   // A voice got through the noise gate
+  live: boolean;        // A player at a mic (a file or demo voice can't wait for GO)
+}
+
+// How one player got off the line
+export interface StartRecord {
+  reactionTime: number | null;  // Seconds from GO to the first scream (null = never screamed)
+  falseStarts: number;
+}
+
+// ===== Vocal Range =====
+export interface VocalRange {
+  low: number;   // Lowest comfortable note (Hz) — flies at ground level
+  high: number;  // Highest comfortable note (Hz) — flies at max height
+}
+
+// ===== Hot-seat Tournament =====
+export type TournamentFormat = 'rounds' | 'bracket';
+
+export interface PlayerCalibration {
+  profile: VolumeProfile | null;   // Player's own volume calibration (for profile.deviceId)
+  vocalRange: VocalRange | null;   // Player's own vocal range (null = learned during play)
+}
+
+export interface TurnResult {
+  round: number;
+  distance: number;
+  screamTime: number;
+  start: StartRecord;
+}
+
+export interface TournamentPlayer {
+  name: string;
+  calibration: PlayerCalibration;
+  results: TurnResult[];
+  eliminated: boolean;   // Knocked out of a bracket
+}
+
+export interface TournamentTurn {
+  player: TournamentPlayer;
+  round: number;
+  totalRounds: number;
+  opponent: string | null;  // Bracket opponent this round (null in rounds format)
+}
+
+export interface Standing {
+  name: string;
+  best: number;          // Best single-turn distance (m)
+  total: number;         // Sum of all turn distances (m)
+  turns: number;
+  eliminated: boolean;
+  bestReaction: number | null;  // Quickest start (s)
+  falseStarts: number;
+}
+
+// ===== Head-to-head Race =====
+export type VersusRule = 'finish' | 'survival';
+
+export interface VersusSettings {
+  rule: VersusRule;          // First past the finish line / last horse running
+  finishDistance: number;    // Finish line (m), used by the 'finish' rule
+}
+
+export interface LaneView {
+  label: string;                  // Player name drawn in the lane
+  snapshot: SimulationSnapshot;
+  finishDistance: number | null;  // Finish line to draw (null = none)
+}
+
+export interface LaneResult {
+  name: string;
+  distance: number;
+  screamTime: number;
+  start: StartRecord;
+}
+
+// ===== Courses =====
+// A hand-made obstacle sequence, played instead of random spawning
+export interface CourseObstacle {
+  distance: number;     // Metres at which it reaches the horse's nose
+  type: ObstacleType;
+  altitude: number;     // Bottom edge, px above the street
+}
+
+export interface Course {
+  name: string;
+  flyingMode: boolean;  // Flown (Pegasus from 5000m) or run and jumped
+  obstacles: CourseObstacle[];  // Sorted by distance
+}
+
+// ===== Ghost Replay =====
+// Everything needed to re-run a game step for step
+export interface Replay {
+  version: number;          // REPLAY_CONFIG.version when recorded
+  seed: number;             // Obstacle course seed
+  flyingMode: boolean;
+  obstaclesEnabled: boolean;
+  staminaEnabled: boolean;  // Breath rule
+  livesEnabled: boolean;    // Lives rule
+  melodyMode: boolean;      // Sing-the-melody mode
+  difficulty: Difficulty;
+  course: Course | null;    // Hand-made course (null = random from the seed)
+  vocalRange: VocalRange | null;  // Range the run started with
+  distance: number;         // Final score (m, envelope bonuses included)
+  screamTime: number;       // Final scream time (s)
+  recordedAt: number;       // Epoch ms
+  inputs: InputSample[];    // One per simulation step
+}
+
+// ===== Pitch Reading =====
+export interface PitchReading {
+  frequency: number;   // Detected fundamental in Hz (0 = no pitch)
+  confidence: number;  // 0–1, how periodic the signal is (1 = clean voiced note)
+}
+
+// ===== Audio Feature Frame =====
+// One fixed-length hop of analysed input, posted by the feature worklet
+export interface FeatureFrame {
+  time: number;         // AudioContext time at the end of the hop (s)
+  duration: number;     // Length of the hop (s)
+  rms: number;          // Raw RMS amplitude over the hop
+  pitch: PitchReading;  // Pitch over the analysis window ending at `time`
+}
+
+// ===== Voice Activity =====
+export interface VoiceAnalysis {
+  isVoiced: boolean;       // Debounced verdict: a real voice, not claps / breath / music
+  harmonicity: number;     // 0–1 share of spectrum energy on harmonics of the pitch
+  flatness: number;        // 0–1 spectral flatness (1 = white noise)
+  pitchStability: number;  // 0–1 steadiness of the recent pitch
+}
 
 // ===== Audio State =====
 export interface AudioState {
@@ -1,9 +1,55 @@
-import type { GameState, ScreenType } from './types';
+import {
+  CANVAS_DIMENSIONS,
+  COURSE_CONFIG,
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_PRESETS,
+  LIVES_CONFIG,
+  STAMINA_CONFIG,
+  TIMING,
+  TOURNAMENT_CONFIG,
+  VERSUS_CONFIG,
+} from './constants';
+import { savePreferredMicId } from './devices';
+import { dateKey } from './random';
+import { decodeCourse, deleteCourse, encodeCourse, loadCourse, loadCourses, saveCourse } from './course';
+import { getObstacleKind } from './obstacle-kinds';
+import type { CourseEditor } from './course-editor';
+import type { ObstacleType } from './obstacle';
+import type {
+  CalibrationPhase,
+  Course,
+  GameState,
+  LaneResult,
+  MelodyResult,
+  Replay,
+  ScreenType,
+  Standing,
+  StartRecord,
+  TournamentFormat,
+  TournamentTurn,
+  VersusRule,
+  VersusSettings,
+  VolumeProfile,
+} from './types';
 
 // Forward declaration for Game type to avoid circular dependency
 interface GameInterface {
   start(): Promise<boolean>;
   restart(): void;
+  calibrate(onProgress: (phase: CalibrationPhase, progress: number) => void): Promise<VolumeProfile>;
+  startTournament(names: string[], format: TournamentFormat, rounds: number): void;
+  endTournament(): void;
+  openVersus(): Promise<void>;
+  startVersus(micIds: string[], settings: VersusSettings): Promise<void>;
+  quit(): void;
+  togglePause(): void;
+  resumeFromMenu(): void;
+  restartRun(): void;
+  importReplay(text: string): Replay;
+  exportReplay(): { filename: string; contents: string } | null;
+  openCourseEditor(course: Course | null): CourseEditor;
+  renderCourseEditor(): void;
+  closeCourseEditor(): void;
 }
 
 /**
@@ -14,21 +60,104 @@ export class UIManager {
   private game: GameInterface;
   
   // DOM Elements
+  private calibrationScreen: HTMLElement;
   private startScreen: HTMLElement;
   private hud: HTMLElement;
   private gameOverScreen: HTMLElement;
   private startBtn: HTMLButtonElement;
   private restartBtn: HTMLButtonElement;
-  
+  private calibrateBtn: HTMLButtonElement;
+  private skipCalibrationBtn: HTMLButtonElement;
+  private recalibrateBtn: HTMLButtonElement;
+  private micDeviceSelect: HTMLSelectElement;
+  private tournamentBtn: HTMLButtonElement;
+  private versusBtn: HTMLButtonElement;
+  private importReplayBtn: HTMLButtonElement;
+  private replayFile: HTMLInputElement;
+  private ghostStatus: HTMLElement;
+
+  // Calibration Elements
+  private calibrationStatus: HTMLElement;
+  private calibrationFill: HTMLElement;
+  private afterCalibration: () => void;  // Where "done" / "skip" leads
+
+  // Tournament Elements
+  private lobbyScreen: HTMLElement;
+  private turnScreen: HTMLElement;
+  private playerForm: HTMLFormElement;
+  private playerNameInput: HTMLInputElement;
+  private playerList: HTMLElement;
+  private formatSelect: HTMLSelectElement;
+  private lobbyError: HTMLElement;
+  private tournamentStartBtn: HTMLButtonElement;
+  private lobbyBackBtn: HTMLButtonElement;
+  private turnRound: HTMLElement;
+  private turnPlayer: HTMLElement;
+  private turnOpponent: HTMLElement;
+  private turnCalibration: HTMLElement;
+  private turnGoBtn: HTMLButtonElement;
+  private turnCalibrateBtn: HTMLButtonElement;
+  private endTournamentBtn: HTMLButtonElement;
+  private playerNames: string[] = [];
+  private currentTurn: TournamentTurn | null = null;
+
+  // Head-to-head Elements
+  private versusScreen: HTMLElement;
+  private versusMicSelects: HTMLSelectElement[];
+  private versusRuleSelect: HTMLSelectElement;
+  private versusError: HTMLElement;
+  private versusStartBtn: HTMLButtonElement;
+  private versusBackBtn: HTMLButtonElement;
+
+  // Course Editor Elements
+  private courseSelect: HTMLSelectElement;
+  private editorScreen: HTMLElement;
+  private editorName: HTMLInputElement;
+  private editorFlying: HTMLInputElement;
+  private editorKind: HTMLSelectElement;
+  private editorDistance: HTMLInputElement;
+  private editorAltitude: HTMLInputElement;
+  private editorList: HTMLElement;
+  private editorView: HTMLInputElement;
+  private editorViewValue: HTMLElement;
+  private editorStatus: HTMLElement;
+  private editorFile: HTMLInputElement;
+  private editor: CourseEditor | null = null;
+
   // HUD Elements
   private timerValue: HTMLElement;
   private distanceValue: HTMLElement;
   private volumeFill: HTMLElement;
+  private staminaMeter: HTMLElement;
+  private staminaFill: HTMLElement;
+  private livesStatus: HTMLElement;
+  private powerUpStatus: HTMLElement;
+  private melodyStatus: HTMLElement;
+  private melodyScoreBox: HTMLElement;
+  private melodyScore: HTMLElement;
+  private melodyDetails: HTMLElement;
   private screamIndicator: HTMLElement;
+  private deviceNotice: HTMLElement;
+  private deviceNoticeTimer: number | null = null;
+
+  // Pause Elements
+  private pauseMenu: HTMLElement;
+  private resumeCountdown: HTMLElement;
+  private resumeCountdownValue: HTMLElement;
   
   // Game Over Elements
   private finalDistance: HTMLElement;
   private finalTime: HTMLElement;
+  private gameOverTitle: HTMLElement;
+  private encouragement: HTMLElement;
+  private scoreboard: HTMLElement;
+  private scoreboardTitle: HTMLElement;
+  private scoreboardHead: HTMLElement;
+  private scoreboardBody: HTMLElement;
+  private quitBtn: HTMLButtonElement;
+  private exportReplayBtn: HTMLButtonElement;
+  private courseInfo: HTMLElement;
+  private startInfo: HTMLElement;
 
   private currentScreen: ScreenType = 'start';
 
@@ -36,18 +165,107 @@ export class UIManager {
     this.game = game;
 
     // Get DOM elements
+    this.calibrationScreen = document.getElementById('calibration-screen')!;
     this.startScreen = document.getElementById('start-screen')!;
     this.hud = document.getElementById('hud')!;
     this.gameOverScreen = document.getElementById('game-over-screen')!;
     this.startBtn = document.getElementById('start-btn') as HTMLButtonElement;
     this.restartBtn = document.getElementById('restart-btn') as HTMLButtonElement;
-    
+    this.calibrateBtn = document.getElementById('calibrate-btn') as HTMLButtonElement;
+    this.skipCalibrationBtn = document.getElementById('skip-calibration-btn') as HTMLButtonElement;
+    this.recalibrateBtn = document.getElementById('recalibrate-btn') as HTMLButtonElement;
+    this.micDeviceSelect = document.getElementById('mic-device-select') as HTMLSelectElement;
+    this.tournamentBtn = document.getElementById('tournament-btn') as HTMLButtonElement;
+    this.versusBtn = document.getElementById('versus-btn') as HTMLButtonElement;
+    this.importReplayBtn = document.getElementById('import-replay-btn') as HTMLButtonElement;
+    this.replayFile = document.getElementById('replay-file') as HTMLInputElement;
+    this.ghostStatus = document.getElementById('ghost-status')!;
+    this.calibrationStatus = document.getElementById('calibration-status')!;
+    this.calibrationFill = document.getElementById('calibration-fill')!;
+    this.afterCalibration = () => this.showStartScreen();
+
+    this.lobbyScreen = document.getElementById('lobby-screen')!;
+    this.turnScreen = document.getElementById('turn-screen')!;
+    this.playerForm = document.getElementById('player-form') as HTMLFormElement;
+    this.playerNameInput = document.getElementById('player-name-input') as HTMLInputElement;
+    this.playerList = document.getElementById('player-list')!;
+    this.formatSelect = document.getElementById('tournament-format-select') as HTMLSelectElement;
+    this.lobbyError = document.getElementById('lobby-error')!;
+    this.tournamentStartBtn = document.getElementById('tournament-start-btn') as HTMLButtonElement;
+    this.lobbyBackBtn = document.getElementById('lobby-back-btn') as HTMLButtonElement;
+    this.turnRound = document.getElementById('turn-round')!;
+    this.turnPlayer = document.getElementById('turn-player')!;
+    this.turnOpponent = document.getElementById('turn-opponent')!;
+    this.turnCalibration = document.getElementById('turn-calibration')!;
+    this.turnGoBtn = document.getElementById('turn-go-btn') as HTMLButtonElement;
+    this.turnCalibrateBtn = document.getElementById('turn-calibrate-btn') as HTMLButtonElement;
+    this.endTournamentBtn = document.getElementById('end-tournament-btn') as HTMLButtonElement;
+
+    this.playerNameInput.maxLength = TOURNAMENT_CONFIG.maxNameLength;
+    TOURNAMENT_CONFIG.roundOptions.forEach(rounds => {
+      const label = rounds === 1 ? 'Single round' : `${rounds} rounds`;
+      this.formatSelect.add(new Option(label, `rounds:${rounds}`));
+    });
+    this.formatSelect.add(new Option('Knockout bracket', 'bracket'));
+
+    this.versusScreen = document.getElementById('versus-screen')!;
+    this.versusMicSelects = [
+      document.getElementById('versus-mic-1') as HTMLSelectElement,
+      document.getElementById('versus-mic-2') as HTMLSelectElement,
+    ];
+    this.versusRuleSelect = document.getElementById('versus-rule-select') as HTMLSelectElement;
+    this.versusError = document.getElementById('versus-error')!;
+    this.versusStartBtn = document.getElementById('versus-start-btn') as HTMLButtonElement;
+    this.versusBackBtn = document.getElementById('versus-back-btn') as HTMLButtonElement;
+
+    VERSUS_CONFIG.finishDistances.forEach(distance => {
+      this.versusRuleSelect.add(new Option(`First to ${distance}m`, `finish:${distance}`));
+    });
+    this.versusRuleSelect.add(new Option('Last horse running', 'survival'));
+
+    this.courseSelect = document.getElementById('course-select') as HTMLSelectElement;
+    this.editorScreen = document.getElementById('editor-screen')!;
+    this.editorName = document.getElementById('editor-name') as HTMLInputElement;
+    this.editorFlying = document.getElementById('editor-flying') as HTMLInputElement;
+    this.editorKind = document.getElementById('editor-kind') as HTMLSelectElement;
+    this.editorDistance = document.getElementById('editor-distance') as HTMLInputElement;
+    this.editorAltitude = document.getElementById('editor-altitude') as HTMLInputElement;
+    this.editorList = document.getElementById('editor-list')!;
+    this.editorView = document.getElementById('editor-view') as HTMLInputElement;
+    this.editorViewValue = document.getElementById('editor-view-value')!;
+    this.editorStatus = document.getElementById('editor-status')!;
+    this.editorFile = document.getElementById('editor-file') as HTMLInputElement;
+    this.editorName.maxLength = COURSE_CONFIG.maxNameLength;
+    this.editorAltitude.max = `${COURSE_CONFIG.maxAltitude}`;
+
     this.timerValue = document.getElementById('timer-value')!;
     this.distanceValue = document.getElementById('distance-value')!;
     this.volumeFill = document.getElementById('volume-fill')!;
+    this.staminaMeter = document.getElementById('stamina-meter')!;
+    this.staminaFill = document.getElementById('stamina-fill')!;
+    this.livesStatus = document.getElementById('lives-status')!;
+    this.powerUpStatus = document.getElementById('powerup-status')!;
+    this.melodyStatus = document.getElementById('melody-status')!;
+    this.melodyScoreBox = document.getElementById('melody-score-box')!;
+    this.melodyScore = document.getElementById('melody-score')!;
+    this.melodyDetails = document.getElementById('melody-details')!;
     this.screamIndicator = document.getElementById('scream-indicator')!;
+    this.deviceNotice = document.getElementById('device-notice')!;
+    this.pauseMenu = document.getElementById('pause-menu')!;
+    this.resumeCountdown = document.getElementById('resume-countdown')!;
+    this.resumeCountdownValue = document.getElementById('resume-countdown-value')!;
     this.finalDistance = document.getElementById('final-distance')!;
     this.finalTime = document.getElementById('final-time')!;
+    this.gameOverTitle = document.getElementById('game-over-title')!;
+    this.encouragement = document.getElementById('encouragement')!;
+    this.scoreboard = document.getElementById('scoreboard')!;
+    this.scoreboardTitle = document.getElementById('scoreboard-title')!;
+    this.scoreboardHead = document.getElementById('scoreboard-head')!;
+    this.scoreboardBody = document.getElementById('scoreboard-body')!;
+    this.quitBtn = document.getElementById('quit-btn') as HTMLButtonElement;
+    this.exportReplayBtn = document.getElementById('export-replay-btn') as HTMLButtonElement;
+    this.courseInfo = document.getElementById('course-info')!;
+    this.startInfo = document.getElementById('start-info')!;
 
     // Setup event listeners
     this.setupEventListeners();
@@ -70,46 +288,275 @@ export class UIManager {
       }
     });
 
+    // Calibration buttons
+    this.calibrateBtn.addEventListener('click', () => this.runCalibration());
+    this.skipCalibrationBtn.addEventListener('click', () => this.afterCalibration());
+    this.recalibrateBtn.addEventListener('click', () => {
+      this.afterCalibration = () => this.showStartScreen();
+      this.showCalibrationScreen();
+    });
+
+    // Tournament lobby
+    this.tournamentBtn.addEventListener('click', () => this.showLobbyScreen());
+    this.lobbyBackBtn.addEventListener('click', () => this.showStartScreen());
+    this.playerForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.addPlayer(this.playerNameInput.value);
+    });
+    this.tournamentStartBtn.addEventListener('click', () => this.startTournament());
+
+    // Turn screen
+    this.turnGoBtn.addEventListener('click', async () => {
+      this.turnGoBtn.disabled = true;
+      const success = await this.game.start();
+      this.turnGoBtn.disabled = false;
+      if (!success && this.currentTurn) {
+        this.showTurnScreen(this.currentTurn);
+      }
+    });
+    this.turnCalibrateBtn.addEventListener('click', () => {
+      const turn = this.currentTurn;
+      if (!turn) return;
+      this.afterCalibration = () => this.showTurnScreen(turn);
+      this.showCalibrationScreen();
+    });
+    this.endTournamentBtn.addEventListener('click', () => this.game.endTournament());
+
+    // Head-to-head
+    this.versusBtn.addEventListener('click', async () => {
+      this.versusBtn.disabled = true;
+      await this.game.openVersus();
+      this.versusBtn.disabled = false;
+    });
+    this.versusBackBtn.addEventListener('click', () => this.showStartScreen());
+    this.versusStartBtn.addEventListener('click', () => this.startVersus());
+    this.quitBtn.addEventListener('click', () => this.game.quit());
+
+    // Course editor
+    this.setupCourseEditor();
+
+    // Ghost replays
+    this.importReplayBtn.addEventListener('click', () => this.replayFile.click());
+    this.replayFile.addEventListener('change', () => this.importReplay());
+    this.exportReplayBtn.addEventListener('click', () => this.exportReplay());
+
+    // Microphone picker — remember the choice for next time
+    this.micDeviceSelect.addEventListener('change', () => {
+      savePreferredMicId(this.micDeviceSelect.value);
+    });
+
     // Restart button
     this.restartBtn.addEventListener('click', () => {
       this.game.restart();
     });
 
-    // Keyboard shortcut for restart
+    // Pause menu
+    document.getElementById('pause-btn')!.addEventListener('click', () => this.game.togglePause());
+    document.getElementById('resume-btn')!.addEventListener('click', () => this.game.resumeFromMenu());
+    document.getElementById('pause-restart-btn')!.addEventListener('click', () => this.game.restartRun());
+    document.getElementById('pause-quit-btn')!.addEventListener('click', () => this.game.quit());
+
+    // Keyboard shortcuts: restart after a run, Esc / P to pause
     document.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' || e.key === ' ') {
         if (this.currentScreen === 'gameover') {
           this.game.restart();
         }
       }
+      if (e.key === 'Escape' || e.key === 'p' || e.key === 'P') {
+        if (this.currentScreen === 'game') {
+          e.preventDefault();
+          this.game.togglePause();
+        }
+      }
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        if (this.currentScreen === 'editor' && !(e.target instanceof HTMLInputElement)) {
+          e.preventDefault();
+          this.editor?.removeSelected();
+          this.refreshEditor();
+        }
+      }
     });
 
-    // Flying mode toggle → show/hide obstacles sub-toggle
+    // Input selector → show file picker for "Audio file…"
+    const inputSelect = document.getElementById('input-source-select') as HTMLSelectElement;
+    const inputFile = document.getElementById('input-file');
+    if (inputSelect && inputFile) {
+      inputSelect.addEventListener('change', () => {
+        inputFile.classList.toggle('hidden', inputSelect.value !== 'file');
+      });
+    }
+
+    // Difficulty presets
+    const difficultySelect = document.getElementById('difficulty-select') as HTMLSelectElement;
+    if (difficultySelect) {
+      for (const [difficulty, preset] of Object.entries(DIFFICULTY_PRESETS)) {
+        const selected = difficulty === DEFAULT_DIFFICULTY;
+        difficultySelect.add(new Option(preset.label, difficulty, selected, selected));
+      }
+    }
+
+    // Daily challenge is always flown with obstacles on (at the default
+    // difficulty); the melody is always flown without them, so only one of
+    // the two can be on
+    const dailyToggle = document.getElementById('daily-toggle') as HTMLInputElement;
+    const melodyToggle = document.getElementById('melody-toggle') as HTMLInputElement;
+    const dailyHint = document.getElementById('daily-hint');
+    if (dailyToggle) {
+      dailyToggle.addEventListener('change', () => {
+        if (difficultySelect) {
+          difficultySelect.disabled = dailyToggle.checked;
+          if (dailyToggle.checked) difficultySelect.value = DEFAULT_DIFFICULTY;
+        }
+        if (!dailyToggle.checked) return;
+        if (melodyToggle) melodyToggle.checked = false;
+        this.courseSelect.value = '';
+        this.setModeToggles(true, true);
+      });
+    }
+    if (melodyToggle) {
+      melodyToggle.addEventListener('change', () => {
+        if (!melodyToggle.checked) return;
+        if (dailyToggle?.checked) {
+          dailyToggle.checked = false;
+          dailyToggle.dispatchEvent(new Event('change'));
+        }
+        this.courseSelect.value = '';
+        this.setModeToggles(true, false);
+      });
+    }
+    if (dailyHint) {
+      dailyHint.textContent = `Everyone gets the same course today (${dateKey()})`;
+    }
+
+    // Flying mode toggle → obstacles are jumped on the ground, dodged in the air
     const flyingToggle = document.getElementById('flying-mode-toggle') as HTMLInputElement;
-    const obstacleContainer = document.getElementById('obstacle-toggle-container');
-    if (flyingToggle && obstacleContainer) {
+    const obstacleHint = document.getElementById('obstacle-hint');
+    if (flyingToggle && obstacleHint) {
       flyingToggle.addEventListener('change', () => {
-        if (flyingToggle.checked) {
-          obstacleContainer.classList.remove('hidden');
-        } else {
-          obstacleContainer.classList.add('hidden');
-          // Uncheck obstacles when flying mode is turned off
-          const obstaclesToggle = document.getElementById('obstacles-toggle') as HTMLInputElement;
-          if (obstaclesToggle) obstaclesToggle.checked = false;
+        obstacleHint.textContent = flyingToggle.checked
+          ? 'From 5000m, dodge obstacles by changing your pitch!'
+          : 'Shout HUP! to jump over fences and barrels!';
+        if (!flyingToggle.checked) {
+          // The modes that fly can't be played on the ground
+          if (dailyToggle?.checked) {
+            dailyToggle.checked = false;
+            dailyToggle.dispatchEvent(new Event('change'));
+          }
+          if (melodyToggle) melodyToggle.checked = false;
         }
       });
     }
+
+    // A hand-made course sets the mode it was built for
+    this.courseSelect.addEventListener('change', () => {
+      const course = loadCourse(this.courseSelect.value);
+      if (!course) return;
+      if (dailyToggle?.checked) {
+        dailyToggle.checked = false;
+        dailyToggle.dispatchEvent(new Event('change'));
+      }
+      if (melodyToggle) melodyToggle.checked = false;
+      this.setModeToggles(course.flyingMode, true);
+    });
+  }
+
+  /**
+   * Run the calibration wizard, reporting progress on the calibration screen
+   */
+  private async runCalibration(): Promise<void> {
+    this.calibrateBtn.disabled = true;
+    this.skipCalibrationBtn.disabled = true;
+    this.calibrationStatus.classList.remove('error');
+
+    try {
+      const profile = await this.game.calibrate((phase, progress) => {
+        this.updateCalibrationProgress(phase, progress);
+      });
+
+      this.calibrationStatus.textContent = `✅ Saved for ${profile.label}`;
+      setTimeout(() => this.afterCalibration(), TIMING.calibrationDoneDelay);
+    } catch (error) {
+      console.error('Calibration failed:', error);
+      this.showCalibrationError((error as Error).message);
+    }
+  }
+
+  /**
+   * Update calibration status text and progress bar
+   */
+  private updateCalibrationProgress(phase: CalibrationPhase, progress: number): void {
+    switch (phase) {
+      case 'silence':
+        this.calibrationStatus.textContent = '🤫 Stay quiet...';
+        this.calibrationFill.style.width = `${progress * 25}%`;
+        break;
+      case 'scream':
+        this.calibrationStatus.textContent = '🗣️ SCREAM NOW!';
+        this.calibrationFill.style.width = `${25 + progress * 25}%`;
+        break;
+      case 'low':
+        this.calibrationStatus.textContent = '🎵 Sing your LOWEST note...';
+        this.calibrationFill.style.width = `${50 + progress * 25}%`;
+        break;
+      case 'high':
+        this.calibrationStatus.textContent = '🎶 Now your HIGHEST note!';
+        this.calibrationFill.style.width = `${75 + progress * 25}%`;
+        break;
+      case 'done':
+        this.calibrationFill.style.width = '100%';
+        break;
+    }
+  }
+
+  /**
+   * Show a calibration error and let the player retry
+   */
+  private showCalibrationError(message: string): void {
+    this.calibrationStatus.textContent = `❌ ${message}`;
+    this.calibrationStatus.classList.add('error');
+    this.calibrationFill.style.width = '0%';
+    this.calibrateBtn.disabled = false;
+    this.skipCalibrationBtn.disabled = false;
+  }
+
+  /**
+   * Show exactly one screen (or the HUD) and hide the rest
+   */
+  private switchScreen(screen: ScreenType): void {
+    this.currentScreen = screen;
+    this.calibrationScreen.classList.toggle('hidden', screen !== 'calibration');
+    this.startScreen.classList.toggle('hidden', screen !== 'start');
+    this.lobbyScreen.classList.toggle('hidden', screen !== 'lobby');
+    this.turnScreen.classList.toggle('hidden', screen !== 'turn');
+    this.versusScreen.classList.toggle('hidden', screen !== 'versus');
+    this.editorScreen.classList.toggle('hidden', screen !== 'editor');
+    this.hud.classList.toggle('hidden', screen !== 'game');
+    this.gameOverScreen.classList.toggle('hidden', screen !== 'gameover');
+  }
+
+  /**
+   * Show the microphone calibration screen
+   */
+  showCalibrationScreen(): void {
+    this.switchScreen('calibration');
+
+    // Reset calibration controls
+    this.calibrateBtn.disabled = false;
+    this.skipCalibrationBtn.disabled = false;
+    this.calibrationStatus.textContent = 'Ready when you are!';
+    this.calibrationStatus.classList.remove('error');
+    this.calibrationFill.style.width = '0%';
   }
 
   /**
    * Show the start screen
    */
   showStartScreen(): void {
-    this.currentScreen = 'start';
-    this.startScreen.classList.remove('hidden');
-    this.hud.classList.add('hidden');
-    this.gameOverScreen.classList.add('hidden');
-    
+    this.switchScreen('start');
+    this.afterCalibration = () => this.showStartScreen();
+    this.fillCourseSelect();
+
     // Reset start button
     this.startBtn.disabled = false;
     this.startBtn.innerHTML = '<span class="btn-icon">🎙️</span><span>ENABLE MIC & START</span>';
@@ -119,30 +566,43 @@ export class UIManager {
    * Show the game HUD
    */
   showGameHUD(): void {
-    this.currentScreen = 'game';
-    this.startScreen.classList.add('hidden');
-    this.hud.classList.remove('hidden');
-    this.gameOverScreen.classList.add('hidden');
-    
+    this.switchScreen('game');
+    this.hud.classList.remove('versus');
+
     // Reset HUD values
     this.updateTimer(0);
     this.updateDistance(0);
     this.updateVolumeMeter(0);
+    this.updateStaminaMeter(1, false);
+    this.livesStatus.classList.add('hidden');
+    this.powerUpStatus.textContent = '';
+    this.melodyStatus.textContent = '';
     this.updateScreamIndicator(false);
+    this.deviceNotice.classList.add('hidden');
   }
 
   /**
    * Show the game over screen with final stats
    */
-  showGameOverScreen(finalDistance: number, screamTime: number): void {
-    this.currentScreen = 'gameover';
-    this.startScreen.classList.add('hidden');
-    this.hud.classList.add('hidden');
-    this.gameOverScreen.classList.remove('hidden');
-    
+  showGameOverScreen(finalDistance: number, screamTime: number, outOfBreath: boolean = false): void {
+    this.switchScreen('gameover');
+
     // Update final scores
     this.finalDistance.textContent = `${finalDistance}m`;
     this.finalTime.textContent = this.formatTime(screamTime);
+
+    // Single-player layout (showScoreboard switches to the tournament one)
+    this.gameOverTitle.textContent = outOfBreath ? 'OUT OF BREATH!' : 'YOU STOPPED!';
+    this.encouragement.textContent = outOfBreath
+      ? 'Take a quick breath before the meter runs dry! 🫁'
+      : 'Can you scream longer? 🐴🔊';
+    this.scoreboard.classList.add('hidden');
+    this.quitBtn.classList.add('hidden');
+    this.exportReplayBtn.classList.add('hidden');
+    this.courseInfo.textContent = '';
+    this.startInfo.textContent = '';
+    this.melodyScoreBox.classList.add('hidden');
+    this.restartBtn.innerHTML = '<span>SCREAM AGAIN!</span>';
     
     // Add animation class
     this.gameOverScreen.style.animation = 'none';
@@ -150,14 +610,574 @@ export class UIManager {
     this.gameOverScreen.style.animation = '';
   }
 
+  /**
+   * Turn the game over screen into the tournament scoreboard.
+   * `player` just finished; `next` is whose turn it is (null when it's over).
+   */
+  showScoreboard(player: string, standings: Standing[], next: TournamentTurn | null, champion: string | null): void {
+    this.gameOverTitle.textContent = `${player.toUpperCase()} STOPPED!`;
+    this.scoreboard.classList.remove('hidden');
+    this.scoreboardTitle.textContent = champion ? '🏆 FINAL STANDINGS' : '🏆 SCOREBOARD';
+
+    this.fillScoreboard(['#', 'PLAYER', 'BEST', 'TOTAL', '⚡'], standings.map((standing, index) => {
+      const row = this.createScoreRow([
+        `${index + 1}`,
+        standing.name,
+        `${Math.floor(standing.best)}m`,
+        `${Math.floor(standing.total)}m`,
+        this.formatReaction(standing.bestReaction, standing.falseStarts),
+      ]);
+      row.classList.toggle('current', standing.name === player);
+      row.classList.toggle('eliminated', standing.eliminated);
+      return row;
+    }));
+
+    if (champion) {
+      this.encouragement.textContent = `🐴 ${champion} wins the tournament! 🎉`;
+      this.restartBtn.innerHTML = '<span>BACK TO START</span>';
+    } else {
+      this.encouragement.textContent = next ? `Next up: ${next.player.name}` : '';
+      this.restartBtn.innerHTML = '<span>NEXT TURN</span>';
+    }
+  }
+
+  /**
+   * Show the result of a head-to-head race. `winner` indexes `results`
+   * (null = dead heat).
+   */
+  showVersusResult(results: LaneResult[], winner: number | null): void {
+    const best = winner !== null ? results[winner] : results[0];
+    this.showGameOverScreen(Math.floor(best.distance), best.screamTime);
+
+    this.gameOverTitle.textContent = winner !== null ? `${results[winner].name} WINS!` : 'DEAD HEAT!';
+    this.encouragement.textContent = 'Rematch? 🐴⚔️🦄';
+    this.scoreboard.classList.remove('hidden');
+    this.scoreboardTitle.textContent = '🏁 RESULT';
+    this.quitBtn.classList.remove('hidden');
+    this.restartBtn.innerHTML = '<span>REMATCH!</span>';
+
+    this.fillScoreboard(['#', 'PLAYER', 'DISTANCE', 'TIME', '⚡'], results.map((result, index) => {
+      const row = this.createScoreRow([
+        `${index + 1}`,
+        result.name,
+        `${Math.floor(result.distance)}m`,
+        this.formatTime(result.screamTime),
+        this.formatReaction(result.start.reactionTime, result.start.falseStarts),
+      ]);
+      row.classList.toggle('current', index === winner);
+      return row;
+    }));
+  }
+
+  private fillScoreboard(headings: string[], rows: HTMLTableRowElement[]): void {
+    this.scoreboardHead.innerHTML = '';
+    headings.forEach(heading => {
+      const cell = document.createElement('th');
+      cell.textContent = heading;
+      this.scoreboardHead.appendChild(cell);
+    });
+
+    this.scoreboardBody.innerHTML = '';
+    rows.forEach(row => this.scoreboardBody.appendChild(row));
+  }
+
+  private createScoreRow(cells: string[]): HTMLTableRowElement {
+    const row = document.createElement('tr');
+    cells.forEach(text => {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.appendChild(cell);
+    });
+    return row;
+  }
+
+  /**
+   * Show the head-to-head setup with a microphone picker per player
+   */
+  showVersusScreen(devices: MediaDeviceInfo[], selectedIds: string[]): void {
+    this.switchScreen('versus');
+    this.versusError.classList.add('hidden');
+    this.versusStartBtn.disabled = false;
+    this.versusMicSelects.forEach((select, index) => {
+      this.fillMicSelect(select, devices, selectedIds[index] ?? '');
+    });
+  }
+
+  /**
+   * Show the HUD for a head-to-head race (lane stats are drawn on the canvas)
+   */
+  showVersusHUD(): void {
+    this.showGameHUD();
+    this.hud.classList.add('versus');
+  }
+
+  private async startVersus(): Promise<void> {
+    const micIds = this.versusMicSelects.map(select => select.value);
+    const [rule, distance] = this.versusRuleSelect.value.split(':');
+
+    this.versusStartBtn.disabled = true;
+    this.versusError.classList.add('hidden');
+    try {
+      await this.game.startVersus(micIds, {
+        rule: rule as VersusRule,
+        finishDistance: Number(distance) || 0,
+      });
+    } catch (error) {
+      this.versusError.textContent = `❌ ${(error as Error).message}`;
+      this.versusError.classList.remove('hidden');
+    }
+    this.versusStartBtn.disabled = false;
+  }
+
+  /**
+   * Show which obstacle course was played, so others can compare
+   */
+  showCourse(seed: string, dailyDate: string | null): void {
+    this.courseInfo.textContent = dailyDate
+      ? `📅 Daily Challenge ${dailyDate} · Course #${seed}`
+      : `🎲 Course #${seed}`;
+  }
+
+  /**
+   * Show how quickly the player got off the line
+   */
+  showStartRecord(start: StartRecord): void {
+    const fouls = start.falseStarts === 1 ? '1 false start' : `${start.falseStarts} false starts`;
+    this.startInfo.textContent = start.reactionTime === null
+      ? `⚡ No start · ${fouls}`
+      : `⚡ Reaction ${start.reactionTime.toFixed(2)}s · ${fouls}`;
+  }
+
+  /**
+   * Reaction time for a scoreboard cell, with a ✗ per false start
+   */
+  private formatReaction(reactionTime: number | null, falseStarts: number): string {
+    const time = reactionTime === null ? '—' : `${reactionTime.toFixed(2)}s`;
+    return time + '✗'.repeat(Math.min(falseStarts, 3));
+  }
+
+  /**
+   * Show how the song went on the game over screen
+   */
+  showMelodyResult(melody: MelodyResult): void {
+    if (melody.complete) {
+      this.gameOverTitle.textContent = 'SONG COMPLETE!';
+      this.encouragement.textContent = melody.notesHit === melody.notesTotal
+        ? 'Every note! 新年好! 🎉'
+        : 'Can you hit every note? 🎶';
+    }
+    this.melodyScoreBox.classList.remove('hidden');
+    this.melodyScore.textContent = `${melody.score}`;
+    this.melodyDetails.innerHTML =
+      `${melody.notesHit}/${melody.notesTotal} notes · ${Math.round(melody.accuracy * 100)}% on pitch<br>` +
+      `Best streak ${melody.bestStreak}`;
+  }
+
+  /**
+   * Offer the run just finished as a replay file
+   */
+  showReplayControls(isNewBest: boolean): void {
+    this.exportReplayBtn.classList.remove('hidden');
+    if (isNewBest) {
+      this.encouragement.textContent = '👻 New best! Your ghost will race you next time';
+    }
+  }
+
+  /**
+   * Load a replay file picked by the player as the ghost, and switch the
+   * mode toggles to the mode it was played in
+   */
+  private async importReplay(): Promise<void> {
+    const file = this.replayFile.files?.[0];
+    this.replayFile.value = '';
+    if (!file) return;
+
+    try {
+      const replay = this.game.importReplay(await file.text());
+      this.setModeToggles(replay.flyingMode, replay.obstaclesEnabled);
+      (document.getElementById('stamina-toggle') as HTMLInputElement).checked = replay.staminaEnabled;
+      (document.getElementById('lives-toggle') as HTMLInputElement).checked = replay.livesEnabled;
+      (document.getElementById('melody-toggle') as HTMLInputElement).checked = replay.melodyMode;
+      (document.getElementById('difficulty-select') as HTMLSelectElement).value = replay.difficulty;
+      this.fillCourseSelect();
+      this.courseSelect.value = replay.course?.name ?? '';
+      (document.getElementById('ghost-toggle') as HTMLInputElement).checked = true;
+      this.ghostStatus.textContent = `Loaded a ${Math.floor(replay.distance)}m run`;
+    } catch (error) {
+      this.ghostStatus.textContent = `❌ ${(error as Error).message}`;
+    }
+  }
+
+  /**
+   * Download the last run as a replay file
+   */
+  private exportReplay(): void {
+    const file = this.game.exportReplay();
+    if (!file) return;
+    this.downloadFile(file.filename, file.contents);
+  }
+
+  private downloadFile(filename: string, contents: string): void {
+    const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Set the flying / obstacles toggles (keeping the obstacle hint in step)
+   */
+  private setModeToggles(flyingMode: boolean, obstaclesEnabled: boolean): void {
+    const flyingToggle = document.getElementById('flying-mode-toggle') as HTMLInputElement;
+    const obstaclesToggle = document.getElementById('obstacles-toggle') as HTMLInputElement;
+    flyingToggle.checked = flyingMode;
+    flyingToggle.dispatchEvent(new Event('change'));
+    obstaclesToggle.checked = obstaclesEnabled;
+  }
+
+  /**
+   * List the saved courses in the start screen's course picker
+   */
+  private fillCourseSelect(): void {
+    const current = this.courseSelect.value;
+    this.courseSelect.length = 1;  // Keep "Random"
+    for (const course of loadCourses()) {
+      this.courseSelect.add(new Option(course.name, course.name));
+    }
+    this.courseSelect.value = loadCourse(current) ? current : '';
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Course editor
+  // ---------------------------------------------------------------------------
+
+  private setupCourseEditor(): void {
+    document.getElementById('course-editor-btn')!.addEventListener('click', () => {
+      this.openEditor(loadCourse(this.courseSelect.value));
+    });
+
+    // Clicking the preview selects an obstacle, or places the chosen kind
+    const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
+    canvas.addEventListener('click', (e) => {
+      if (this.currentScreen !== 'editor' || !this.editor) return;
+      const bounds = canvas.getBoundingClientRect();
+      const x = (e.clientX - bounds.left) / bounds.width * CANVAS_DIMENSIONS.width;
+      const y = (e.clientY - bounds.top) / bounds.height * CANVAS_DIMENSIONS.height;
+      this.editor.clickAt(x, y, this.editorKind.value as ObstacleType);
+      this.refreshEditor();
+    });
+
+    this.editorName.addEventListener('input', () => this.editor?.rename(this.editorName.value));
+    this.editorFlying.addEventListener('change', () => {
+      this.editor?.setFlyingMode(this.editorFlying.checked);
+      this.fillEditorKinds();
+      this.refreshEditor();
+    });
+    document.getElementById('editor-add-btn')!.addEventListener('click', () => {
+      if (!this.editor) return;
+      const kind = getObstacleKind(this.editorKind.value as ObstacleType);
+      const altitude = (kind.altitude.min + kind.altitude.max) / 2;
+      this.editor.place(this.editorKind.value as ObstacleType, this.editor.viewDistance + COURSE_CONFIG.placeAhead, altitude);
+      this.refreshEditor();
+    });
+    this.editorDistance.addEventListener('change', () => {
+      this.editor?.updateSelected({ distance: this.editorDistance.valueAsNumber });
+      this.refreshEditor();
+    });
+    this.editorAltitude.addEventListener('change', () => {
+      this.editor?.updateSelected({ altitude: this.editorAltitude.valueAsNumber });
+      this.refreshEditor();
+    });
+    document.getElementById('editor-remove-btn')!.addEventListener('click', () => {
+      this.editor?.removeSelected();
+      this.refreshEditor();
+    });
+    this.editorView.addEventListener('input', () => {
+      this.editor?.scrollTo(this.editorView.valueAsNumber);
+      this.refreshEditor();
+    });
+
+    document.getElementById('editor-save-btn')!.addEventListener('click', () => this.saveEditedCourse());
+    document.getElementById('editor-back-btn')!.addEventListener('click', () => {
+      this.editor = null;
+      this.game.closeCourseEditor();
+      this.showStartScreen();
+    });
+    document.getElementById('editor-export-btn')!.addEventListener('click', () => {
+      if (!this.editor) return;
+      try {
+        const course = this.editor.getCourse();
+        this.downloadFile(`${course.name}${COURSE_CONFIG.fileExtension}`, encodeCourse(course));
+      } catch (error) {
+        this.editorStatus.textContent = `❌ ${(error as Error).message}`;
+      }
+    });
+    document.getElementById('editor-import-btn')!.addEventListener('click', () => this.editorFile.click());
+    this.editorFile.addEventListener('change', () => this.importCourse());
+    document.getElementById('editor-delete-btn')!.addEventListener('click', () => {
+      const name = this.editor?.name.trim();
+      if (!name || !loadCourse(name)) {
+        this.editorStatus.textContent = '❌ This course isn\'t saved';
+        return;
+      }
+      this.editorStatus.textContent = deleteCourse(name)
+        ? `🗑️ Deleted "${name}"`
+        : '❌ Couldn\'t delete the course';
+    });
+  }
+
+  /**
+   * Show the course editor on `course` (or a new, empty one)
+   */
+  private openEditor(course: Course | null): void {
+    this.editor = this.game.openCourseEditor(course);
+    this.switchScreen('editor');
+    this.editorName.value = this.editor.name;
+    this.editorFlying.checked = this.editor.flyingMode;
+    this.editorStatus.textContent = course ? '' : 'Click the street or sky to place an obstacle';
+    this.fillEditorKinds();
+    this.refreshEditor();
+  }
+
+  /**
+   * Offer the obstacle kinds the course can use
+   */
+  private fillEditorKinds(): void {
+    if (!this.editor) return;
+    const current = this.editorKind.value;
+    this.editorKind.length = 0;
+    for (const type of this.editor.kinds) {
+      this.editorKind.add(new Option(getObstacleKind(type).label, type));
+    }
+    if (this.editor.kinds.includes(current as ObstacleType)) {
+      this.editorKind.value = current;
+    }
+  }
+
+  /**
+   * Bring the editor form and the preview up to date with the course
+   */
+  private refreshEditor(): void {
+    const editor = this.editor;
+    if (!editor) return;
+
+    const selected = editor.selected;
+    this.editorDistance.disabled = !selected;
+    this.editorAltitude.disabled = !selected || !editor.flyingMode;
+    this.editorDistance.value = selected ? `${selected.distance}` : '';
+    this.editorAltitude.value = selected ? `${selected.altitude}` : '';
+
+    this.editorList.innerHTML = '';
+    for (const entry of editor.obstacles) {
+      const item = document.createElement('li');
+      item.textContent = `${getObstacleKind(entry.type).label} · ${entry.distance}m` +
+        (editor.flyingMode ? ` · ↑${entry.altitude}` : '');
+      item.classList.toggle('selected', entry === selected);
+      item.addEventListener('click', () => {
+        editor.select(entry);
+        editor.scrollTo(entry.distance - COURSE_CONFIG.placeAhead);
+        this.refreshEditor();
+      });
+      this.editorList.appendChild(item);
+    }
+
+    this.editorView.max = `${editor.length}`;
+    this.editorView.value = `${editor.viewDistance}`;
+    this.editorViewValue.textContent = `${Math.floor(editor.viewDistance)}m`;
+    this.game.renderCourseEditor();
+  }
+
+  private saveEditedCourse(): void {
+    if (!this.editor) return;
+    try {
+      const course = this.editor.getCourse();
+      this.editorName.value = course.name;
+      this.editorStatus.textContent = saveCourse(course)
+        ? `✅ Saved "${course.name}"`
+        : '❌ Couldn\'t save the course';
+      this.fillCourseSelect();
+      this.courseSelect.value = course.name;
+    } catch (error) {
+      this.editorStatus.textContent = `❌ ${(error as Error).message}`;
+    }
+  }
+
+  /**
+   * Open a course file picked by the player in the editor
+   */
+  private async importCourse(): Promise<void> {
+    const file = this.editorFile.files?.[0];
+    this.editorFile.value = '';
+    if (!file) return;
+
+    try {
+      this.openEditor(decodeCourse(await file.text()));
+      this.editorStatus.textContent = '📂 Imported — save to keep it';
+    } catch (error) {
+      this.editorStatus.textContent = `❌ ${(error as Error).message}`;
+    }
+  }
+
+  /**
+   * Show the hot-seat lobby where players enter their names
+   */
+  showLobbyScreen(): void {
+    this.switchScreen('lobby');
+    this.lobbyError.classList.add('hidden');
+    this.renderPlayerList();
+    this.playerNameInput.focus();
+  }
+
+  /**
+   * Show whose turn it is, with the option to calibrate their own mic first
+   */
+  showTurnScreen(turn: TournamentTurn): void {
+    this.switchScreen('turn');
+    this.currentTurn = turn;
+    this.afterCalibration = () => this.showTurnScreen(turn);
+
+    this.turnRound.textContent = `ROUND ${turn.round} / ${turn.totalRounds}`;
+    this.turnPlayer.textContent = turn.player.name;
+    this.turnOpponent.textContent = turn.opponent ? `⚔️ vs ${turn.opponent}` : '';
+    this.turnOpponent.classList.toggle('hidden', !turn.opponent);
+
+    const profile = turn.player.calibration.profile;
+    this.turnCalibration.textContent = profile
+      ? `🎚️ Using your calibration for ${profile.label}`
+      : '🎚️ Not calibrated yet — using the mic defaults';
+    this.turnGoBtn.disabled = false;
+  }
+
+  /**
+   * Add a name to the lobby's player list
+   */
+  private addPlayer(rawName: string): void {
+    const name = rawName.trim().slice(0, TOURNAMENT_CONFIG.maxNameLength);
+    if (!name) return;
+
+    if (this.playerNames.includes(name)) {
+      this.showLobbyError('That name is taken');
+    } else if (this.playerNames.length >= TOURNAMENT_CONFIG.maxPlayers) {
+      this.showLobbyError(`At most ${TOURNAMENT_CONFIG.maxPlayers} players`);
+    } else {
+      this.playerNames.push(name);
+      this.lobbyError.classList.add('hidden');
+      this.renderPlayerList();
+    }
+
+    this.playerNameInput.value = '';
+    this.playerNameInput.focus();
+  }
+
+  private renderPlayerList(): void {
+    this.playerList.innerHTML = '';
+    this.playerNames.forEach((name, index) => {
+      const item = document.createElement('li');
+      item.textContent = name;
+
+      const remove = document.createElement('button');
+      remove.className = 'text-btn';
+      remove.textContent = '✖';
+      remove.addEventListener('click', () => {
+        this.playerNames.splice(index, 1);
+        this.renderPlayerList();
+      });
+
+      item.appendChild(remove);
+      this.playerList.appendChild(item);
+    });
+  }
+
+  private startTournament(): void {
+    const [format, rounds] = this.formatSelect.value.split(':');
+    try {
+      this.game.startTournament([...this.playerNames], format as TournamentFormat, Number(rounds) || 1);
+    } catch (error) {
+      this.showLobbyError((error as Error).message);
+    }
+  }
+
+  private showLobbyError(message: string): void {
+    this.lobbyError.textContent = `❌ ${message}`;
+    this.lobbyError.classList.remove('hidden');
+  }
+
+  /**
+   * Fill the microphone picker with the available input devices
+   */
+  setMicDevices(devices: MediaDeviceInfo[], selectedId: string): void {
+    this.fillMicSelect(this.micDeviceSelect, devices, selectedId);
+  }
+
+  private fillMicSelect(select: HTMLSelectElement, devices: MediaDeviceInfo[], selectedId: string): void {
+    select.innerHTML = '';
+    select.add(new Option('Default microphone', ''));
+
+    devices
+      .filter(d => d.deviceId && d.deviceId !== 'default')
+      .forEach((device, index) => {
+        select.add(new Option(device.label || `Microphone ${index + 1}`, device.deviceId));
+      });
+
+    const known = Array.from(select.options).some(o => o.value === selectedId);
+    select.value = known ? selectedId : '';
+  }
+
+  showPauseMenu(): void {
+    this.pauseMenu.classList.remove('hidden');
+  }
+
+  hidePauseMenu(): void {
+    this.pauseMenu.classList.add('hidden');
+  }
+
+  /**
+   * Show the seconds left before a resumed run carries on
+   */
+  showResumeCountdown(seconds: number): void {
+    this.resumeCountdownValue.textContent = `${seconds}`;
+    this.resumeCountdown.classList.remove('hidden');
+  }
+
+  hideResumeCountdown(): void {
+    this.resumeCountdown.classList.add('hidden');
+  }
+
+  /**
+   * Show a microphone status message on the HUD.
+   * With `duration` (ms) it hides itself; without, it stays until replaced.
+   */
+  showDeviceNotice(message: string, duration?: number): void {
+    if (this.deviceNoticeTimer !== null) {
+      clearTimeout(this.deviceNoticeTimer);
+      this.deviceNoticeTimer = null;
+    }
+
+    this.deviceNotice.textContent = message;
+    this.deviceNotice.classList.remove('hidden');
+
+    if (duration !== undefined) {
+      this.deviceNoticeTimer = window.setTimeout(() => {
+        this.deviceNotice.classList.add('hidden');
+        this.deviceNoticeTimer = null;
+      }, duration);
+    }
+  }
+
   /**
    * Update the HUD with current game state
    */
   updateHUD(state: GameState): void {
     this.updateTimer(state.screamTime);
-    this.updateDistance(state.distance);
+    this.updateDistance(state.score);
     this.updateVolumeMeter(state.volumeLevel);
-    this.updateScreamIndicator(state.isScreaming);
+    this.updateStaminaMeter(state.stamina, state.staminaEnabled);
+    this.updateLives(state.lives, state.livesEnabled);
+    this.updatePowerUps(state);
+    this.updateMelodyStatus(state.melody);
+    this.updateScreamIndicator(state.isScreaming, state.inputIgnored);
   }
 
   /**
@@ -183,12 +1203,53 @@ export class UIManager {
   }
 
   /**
-   * Update the scream indicator
+   * Update the breath gauge (hidden when the stamina rule is off)
    */
-  private updateScreamIndicator(isScreaming: boolean): void {
+  private updateStaminaMeter(stamina: number, enabled: boolean): void {
+    this.staminaMeter.classList.toggle('hidden', !enabled);
+    this.staminaFill.style.width = `${stamina * 100}%`;
+    this.staminaFill.classList.toggle('low', stamina < STAMINA_CONFIG.lowLevel);
+  }
+
+  /**
+   * Hearts left under the distance (hidden when the lives rule is off)
+   */
+  private updateLives(lives: number, enabled: boolean): void {
+    this.livesStatus.classList.toggle('hidden', !enabled);
+    this.livesStatus.textContent = '❤️'.repeat(lives) + '🖤'.repeat(Math.max(0, LIVES_CONFIG.lives - lives));
+  }
+
+  /**
+   * Show active power-ups and the envelope bonus under the distance
+   */
+  private updatePowerUps(state: GameState): void {
+    const parts: string[] = [];
+    if (state.shieldTime > 0) parts.push(`🏮 ${state.shieldTime.toFixed(1)}s`);
+    if (state.burstTime > 0) parts.push('🧨 BURST!');
+    if (state.bonusDistance > 0) parts.push(`🧧 +${state.bonusDistance}m`);
+    this.powerUpStatus.textContent = parts.join(' ');
+  }
+
+  /**
+   * Song score and streak while singing the melody
+   */
+  private updateMelodyStatus(melody: MelodyResult | null): void {
+    this.melodyStatus.textContent = melody
+      ? `🎶 ${melody.score} · ${melody.streak > 1 ? `🔥 x${melody.streak}` : `${melody.notesHit}/${melody.notesTotal}`}`
+      : '';
+  }
+
+  /**
+   * Update the scream indicator (and flag input the classifier is ignoring)
+   */
+  private updateScreamIndicator(isScreaming: boolean, inputIgnored: boolean = false): void {
+    this.screamIndicator.classList.toggle('ignored', inputIgnored);
     if (isScreaming) {
       this.screamIndicator.classList.add('active');
       this.screamIndicator.textContent = '🔊 SCREAMING!';
+    } else if (inputIgnored) {
+      this.screamIndicator.classList.remove('active');
+      this.screamIndicator.textContent = '🚫 NOT A VOICE!';
     } else {
       this.screamIndicator.classList.remove('active');
       this.screamIndicator.textContent = '🔇 SCREAM NOW!';
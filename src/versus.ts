@@ -0,0 +1,46 @@
+import type { GameState, VersusSettings } from './types';
+
+/**
+ * Outcome of a head-to-head race so far
+ */
+export interface RaceVerdict {
+  over: boolean;
+  winner: number | null;  // Lane index (null = undecided or a dead heat)
+}
+
+/**
+ * Judge a head-to-head race from each lane's state.
+ *
+ *   finish    first horse past the finish line wins; a horse that stops is
+ *             out, and if every horse stops the one that got furthest wins
+ *   survival  last horse running wins
+ *
+ * Horses that cross the line (or stop) on the same frame are split by distance.
+ */
+export function judgeRace(states: GameState[], settings: VersusSettings): RaceVerdict {
+  const lanes = states.map((_, index) => index);
+  const running = lanes.filter(i => !states[i].isGameOver);
+
+  if (settings.rule === 'finish') {
+    const finished = lanes.filter(i => states[i].score >= settings.finishDistance);
+    if (finished.length > 0) {
+      return { over: true, winner: furthest(states, finished) };
+    }
+  } else if (running.length === 1 && states.length > 1) {
+    return { over: true, winner: running[0] };
+  }
+
+  if (running.length === 0) {
+    return { over: true, winner: furthest(states, lanes) };
+  }
+  return { over: false, winner: null };
+}
+
+/**
+ * Lane (among `lanes`) that got furthest, or null on a tie.
+ */
+function furthest(states: GameState[], lanes: number[]): number | null {
+  const best = Math.max(...lanes.map(i => states[i].score));
+  const leaders = lanes.filter(i => states[i].score === best);
+  return leaders.length === 1 ? leaders[0] : null;
+}
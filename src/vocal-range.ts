@@ -0,0 +1,148 @@
+import { VOCAL_CONFIG } from './constants';
+import type { VocalRange } from './types';
+
+/**
+ * Vocal range — Maps pitch to flying height across the player's own range,
+ * in semitones, so deep and high voices get the same amount of sky.
+ *
+ * The range is either recorded on the calibration screen (lowest / highest
+ * comfortable note) or learned from the confident pitches heard during play.
+ */
+
+/**
+ * Semitones above A4 (440 Hz). Equal steps in semitones feel equal to a singer.
+ */
+export function toSemitones(frequency: number): number {
+  return 12 * Math.log2(frequency / 440);
+}
+
+/**
+ * Where `frequency` sits in `range`: 0 = low note (or below), 1 = high note (or above).
+ */
+export function pitchToRangePosition(frequency: number, range: VocalRange): number {
+  const low = toSemitones(range.low);
+  const high = toSemitones(range.high);
+  if (high <= low || frequency <= 0) return 0;
+
+  const position = (toSemitones(frequency) - low) / (high - low);
+  return Math.max(0, Math.min(1, position));
+}
+
+/**
+ * A vocal range read from storage or a file, or null if it isn't a usable one.
+ */
+export function validateVocalRange(data: unknown): VocalRange | null {
+  const range = data as Partial<VocalRange> | null;
+  if (!range || typeof range !== 'object') return null;
+
+  const { low, high } = range;
+  if (!Number.isFinite(low) || !Number.isFinite(high) || low! <= 0 || low! >= high!) {
+    return null;
+  }
+  return { low: low!, high: high! };
+}
+
+// ---------------------------------------------------------------------------
+//  Storage
+// ---------------------------------------------------------------------------
+
+export function loadVocalRange(): VocalRange | null {
+  try {
+    const raw = localStorage.getItem(VOCAL_CONFIG.storageKey);
+    if (!raw) return null;
+
+    const range = validateVocalRange(JSON.parse(raw));
+    if (!range) console.warn('Discarding unreadable vocal range:', raw);
+    return range;
+  } catch (error) {
+    console.warn('Failed to read vocal range:', error);
+    return null;
+  }
+}
+
+export function saveVocalRange(range: VocalRange): void {
+  try {
+    localStorage.setItem(VOCAL_CONFIG.storageKey, JSON.stringify(range));
+  } catch (error) {
+    console.warn('Failed to save vocal range:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Learning during play
+// ---------------------------------------------------------------------------
+
+/**
+ * VocalRangeTracker — Keeps the range used for flight during a run.
+ *
+ * With a calibrated range it only ever widens it (a note the player really
+ * sings is never clipped). Without one it learns the range from recent
+ * pitches once it has heard enough of them.
+ */
+export class VocalRangeTracker {
+  private calibrated: VocalRange | null;
+  private observations: number[] = [];  // Semitones, oldest first
+  private range: VocalRange | null;      // getRange() as of the last observation
+
+  constructor(calibrated: VocalRange | null = null) {
+    this.calibrated = calibrated;
+    this.range = calibrated;
+  }
+
+  /**
+   * Record one confident pitch reading (Hz).
+   */
+  observe(frequency: number): void {
+    if (frequency <= 0) return;
+    this.observations.push(toSemitones(frequency));
+    if (this.observations.length > VOCAL_CONFIG.learnWindow) {
+      this.observations.shift();
+    }
+    this.range = this.computeRange();
+  }
+
+  /**
+   * Current range, or null if nothing is calibrated and too little was heard.
+   */
+  getRange(): VocalRange | null {
+    return this.range;
+  }
+
+  reset(calibrated: VocalRange | null): void {
+    this.calibrated = calibrated;
+    this.observations = [];
+    this.range = calibrated;
+  }
+
+  private computeRange(): VocalRange | null {
+    const learned = this.learnedRange();
+    if (this.calibrated) {
+      if (!learned) return this.calibrated;
+      return {
+        low: Math.min(this.calibrated.low, learned.low),
+        high: Math.max(this.calibrated.high, learned.high),
+      };
+    }
+    return learned;
+  }
+
+  private learnedRange(): VocalRange | null {
+    if (this.observations.length < VOCAL_CONFIG.minLearnSamples) return null;
+
+    const sorted = [...this.observations].sort((a, b) => a - b);
+    let low = sorted[Math.floor(VOCAL_CONFIG.learnLowPercentile * (sorted.length - 1))];
+    let high = sorted[Math.floor(VOCAL_CONFIG.learnHighPercentile * (sorted.length - 1))];
+
+    // Too narrow (e.g. one steady note so far) → open it up around the middle
+    if (high - low < VOCAL_CONFIG.minSpanSemitones) {
+      const middle = (low + high) / 2;
+      low = middle - VOCAL_CONFIG.minSpanSemitones / 2;
+      high = middle + VOCAL_CONFIG.minSpanSemitones / 2;
+    }
+
+    return {
+      low: 440 * Math.pow(2, low / 12),
+      high: 440 * Math.pow(2, high / 12),
+    };
+  }
+}
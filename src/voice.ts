@@ -0,0 +1,159 @@
+import { VOICE_CONFIG } from './constants';
+import type { FeatureFrame, VoiceAnalysis } from './types';
+
+/**
+ * VoiceClassifier — Tells a real voice apart from claps, mic taps, blowing
+ * into the mic and background music, using three cues:
+ *
+ *   harmonicity     share of spectrum energy sitting on harmonics of the pitch
+ *                   (voices are harmonic, breath and taps are not)
+ *   flatness        geometric / arithmetic mean of the spectrum
+ *                   (≈1 for noise like blown air, low for tonal sounds)
+ *   pitch stability how steady the detected pitch is over ~0.3 s
+ *                   (claps and taps have no steady pitch at all)
+ *
+ * The verdict is debounced: a sound must pass for `acceptTime` to count as
+ * voiced and fail for `rejectTime` before it is ignored again, so consonants
+ * and cracked notes mid-scream don't cut the player off.
+ */
+export class VoiceClassifier {
+  private recentPitches: { time: number; duration: number; semitones: number }[] = [];
+  private now: number = 0;  // Audio time of the newest frame, advanced while none arrive
+  private passTime: number = 0;
+  private failTime: number = 0;
+  private voiced: boolean = false;
+  private analysis: VoiceAnalysis = {
+    isVoiced: false,
+    harmonicity: 0,
+    flatness: 1,
+    pitchStability: 0,
+  };
+
+  /**
+   * Classify the latest input.
+   * @param spectrum  Analyser magnitudes in dB (getFloatFrequencyData)
+   * @param binWidth  Hz per spectrum bin
+   * @param frames    Feature frames since the last call (for pitch stability)
+   * @param deltaSeconds Time since the last call
+   */
+  update(spectrum: Float32Array, binWidth: number, frames: FeatureFrame[], deltaSeconds: number): VoiceAnalysis {
+    this.trackPitches(frames, deltaSeconds);
+
+    const f0 = this.medianPitch();
+    const { harmonicity, flatness } = this.analyseSpectrum(spectrum, binWidth, f0);
+    const pitchStability = this.pitchStability();
+
+    const passes = harmonicity >= VOICE_CONFIG.minHarmonicity &&
+      flatness <= VOICE_CONFIG.maxFlatness &&
+      pitchStability >= VOICE_CONFIG.minStability;
+
+    if (passes) {
+      this.passTime += deltaSeconds;
+      this.failTime = 0;
+      if (this.passTime >= VOICE_CONFIG.acceptTime) this.voiced = true;
+    } else {
+      this.failTime += deltaSeconds;
+      this.passTime = 0;
+      if (this.failTime >= VOICE_CONFIG.rejectTime) this.voiced = false;
+    }
+
+    this.analysis = { isVoiced: this.voiced, harmonicity, flatness, pitchStability };
+    return this.analysis;
+  }
+
+  getAnalysis(): VoiceAnalysis {
+    return this.analysis;
+  }
+
+  reset(): void {
+    this.recentPitches = [];
+    this.now = 0;
+    this.passTime = 0;
+    this.failTime = 0;
+    this.voiced = false;
+    this.analysis = { isVoiced: false, harmonicity: 0, flatness: 1, pitchStability: 0 };
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Spectrum cues
+  // ---------------------------------------------------------------------------
+
+  private analyseSpectrum(spectrum: Float32Array, binWidth: number, f0: number): { harmonicity: number; flatness: number } {
+    const minBin = Math.max(1, Math.floor(VOICE_CONFIG.minFrequency / binWidth));
+    const maxBin = Math.min(spectrum.length - 1, Math.ceil(VOICE_CONFIG.maxFrequency / binWidth));
+
+    let totalPower = 0;
+    let logSum = 0;
+    for (let i = minBin; i <= maxBin; i++) {
+      const power = Math.pow(10, spectrum[i] / 10) + 1e-12;
+      totalPower += power;
+      logSum += Math.log(power);
+    }
+    const binCount = maxBin - minBin + 1;
+    const flatness = Math.exp(logSum / binCount) / (totalPower / binCount);
+
+    if (f0 <= 0 || totalPower <= 0) {
+      return { harmonicity: 0, flatness };
+    }
+
+    // Energy within ±1 bin of each harmonic of f0
+    let harmonicPower = 0;
+    let lastBin = -1;
+    for (let k = 1; k <= VOICE_CONFIG.harmonics; k++) {
+      const centre = Math.round((k * f0) / binWidth);
+      if (centre > maxBin) break;
+      for (let i = Math.max(centre - 1, lastBin + 1, minBin); i <= Math.min(centre + 1, maxBin); i++) {
+        harmonicPower += Math.pow(10, spectrum[i] / 10) + 1e-12;
+        lastBin = i;
+      }
+    }
+
+    return { harmonicity: harmonicPower / totalPower, flatness };
+  }
+
+  // ---------------------------------------------------------------------------
+  //  Pitch stability
+  // ---------------------------------------------------------------------------
+
+  private trackPitches(frames: FeatureFrame[], deltaSeconds: number): void {
+    for (const frame of frames) {
+      if (frame.pitch.confidence >= VOICE_CONFIG.pitchConfidence && frame.pitch.frequency > 0) {
+        this.recentPitches.push({
+          time: frame.time,
+          duration: frame.duration,
+          semitones: 12 * Math.log2(frame.pitch.frequency / 440),
+        });
+      }
+    }
+
+    // Keep only the stability window, measured back from the newest frame
+    // (or from the time since it, so old pitches age out even without frames)
+    this.now = frames.length > 0 ? frames[frames.length - 1].time : this.now + deltaSeconds;
+    const cutoff = this.now - VOICE_CONFIG.stabilityWindow;
+    this.recentPitches = this.recentPitches.filter(p => p.time >= cutoff);
+  }
+
+  private medianPitch(): number {
+    if (this.recentPitches.length === 0) return 0;
+    const sorted = this.recentPitches.map(p => p.semitones).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return 440 * Math.pow(2, median / 12);
+  }
+
+  /**
+   * 0–1: 1 = rock-steady pitch, 0 = no pitch or jumping around.
+   * Also scaled by how much of the window actually had a pitch.
+   */
+  private pitchStability(): number {
+    const count = this.recentPitches.length;
+    if (count < VOICE_CONFIG.minPitchedFrames) return 0;
+
+    const mean = this.recentPitches.reduce((sum, p) => sum + p.semitones, 0) / count;
+    const variance = this.recentPitches.reduce((sum, p) => sum + (p.semitones - mean) ** 2, 0) / count;
+    const steadiness = 1 - Math.min(1, Math.sqrt(variance) / VOICE_CONFIG.maxPitchDeviation);
+
+    const pitchedTime = this.recentPitches.reduce((sum, p) => sum + p.duration, 0);
+    const coverage = Math.min(1, pitchedTime / VOICE_CONFIG.stabilityWindow);
+    return steadiness * coverage;
+  }
+}